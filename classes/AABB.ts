@@ -0,0 +1,66 @@
+import type { Vector3Like } from 'hytopia';
+
+export type AABBLike = {
+  min: Vector3Like;
+  max: Vector3Like;
+};
+
+/**
+ * Helpers for the axis aligned bounding boxes used to define regions in gameConfig.ts.
+ */
+export default class AABB {
+  public static contains(aabb: AABBLike, position: Vector3Like): boolean {
+    return position.x >= aabb.min.x && position.x <= aabb.max.x &&
+      position.y >= aabb.min.y && position.y <= aabb.max.y &&
+      position.z >= aabb.min.z && position.z <= aabb.max.z;
+  }
+
+  public static intersects(a: AABBLike, b: AABBLike): boolean {
+    return a.min.x < b.max.x && a.max.x > b.min.x &&
+      a.min.y < b.max.y && a.max.y > b.min.y &&
+      a.min.z < b.max.z && a.max.z > b.min.z;
+  }
+
+  /**
+   * Whether the line segment between two points passes through the box.
+   */
+  public static intersectsSegment(aabb: AABBLike, from: Vector3Like, to: Vector3Like): boolean {
+    let enter = 0;
+    let exit = 1;
+
+    for (const axis of [ 'x', 'y', 'z' ] as const) {
+      const delta = to[axis] - from[axis];
+
+      if (delta === 0) {
+        if (from[axis] < aabb.min[axis] || from[axis] > aabb.max[axis]) return false;
+        continue;
+      }
+
+      const t1 = (aabb.min[axis] - from[axis]) / delta;
+      const t2 = (aabb.max[axis] - from[axis]) / delta;
+
+      enter = Math.max(enter, Math.min(t1, t2));
+      exit = Math.min(exit, Math.max(t1, t2));
+
+      if (enter > exit) return false;
+    }
+
+    return true;
+  }
+
+  public static center(aabb: AABBLike): Vector3Like {
+    return {
+      x: (aabb.min.x + aabb.max.x) / 2,
+      y: (aabb.min.y + aabb.max.y) / 2,
+      z: (aabb.min.z + aabb.max.z) / 2,
+    };
+  }
+
+  public static randomPosition(aabb: AABBLike): Vector3Like {
+    return {
+      x: aabb.min.x + Math.random() * (aabb.max.x - aabb.min.x),
+      y: aabb.min.y + Math.random() * (aabb.max.y - aabb.min.y),
+      z: aabb.min.z + Math.random() * (aabb.max.z - aabb.min.z),
+    };
+  }
+}
@@ -10,8 +10,8 @@ import {
   World,
 } from 'hytopia';
 
-import { CHEST_DROP_ITEMS, CHEST_MAX_DROP_ITEMS, CHEST_OPEN_DESPAWN_MS } from '../gameConfig';
-import ItemFactory from './ItemFactory';
+import { CHEST_OPEN_DESPAWN_MS } from '../gameConfig';
+import LootManager from './LootManager';
 
 export default class ChestEntity extends Entity {
   private _labelSceneUI: SceneUI;
@@ -62,12 +62,7 @@ export default class ChestEntity extends Entity {
 
     setTimeout(() => {
       this.startModelLoopedAnimations([ 'open' ]);
-
-      const numItems = Math.floor(Math.random() * CHEST_MAX_DROP_ITEMS) + 1;
-
-      for (let i = 0; i < numItems; i++) {
-        this._spawnRandomChestItem();
-      }
+      this._spawnChestItems();
     }, 600);
 
     // despawn chest after 20 seconds
@@ -93,28 +88,12 @@ export default class ChestEntity extends Entity {
     });
   }
 
-  private async _spawnRandomChestItem(): Promise<void> {
-    if (!this.world) return;
-
-    // Calculate total weight
-    const totalWeight = CHEST_DROP_ITEMS.reduce((sum, item) => sum + item.pickWeight, 0);
+  private async _spawnChestItems(): Promise<void> {
+    const items = await LootManager.instance.createItems('chest');
 
-    // Get random value between 0 and total weight
-    let random = Math.random() * totalWeight;
+    items.forEach(item => {
+      if (!this.world) return;
 
-    // Find the selected item
-    let selectedItem = CHEST_DROP_ITEMS[0];
-    for (const item of CHEST_DROP_ITEMS) {
-      random -= item.pickWeight;
-      if (random <= 0) {
-        selectedItem = item;
-        break;
-      }
-    }
-
-    const item = await ItemFactory.createItem(selectedItem.itemId);
-    
-    if (item) {
       item.spawn(this.world, {
         x: this.position.x,
         y: this.position.y + 2,
@@ -128,8 +107,6 @@ export default class ChestEntity extends Entity {
         y: 5 * item.mass,
         z: (Math.random() - 0.5) * 10 * item.mass,
       });
-    } else {
-      console.error(`Failed to create item: ${selectedItem.itemId}`);
-    }
+    });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,67 @@
+import { ASSIST_WINDOW_MS } from '../gameConfig';
+
+import type GamePlayerEntity from './GamePlayerEntity';
+
+export type DamageSource = {
+  weaponName?: string;  // What dealt the damage, defaults to the attacker's active item.
+  headshot?: boolean;
+};
+
+export type DamageRecord = {
+  attacker?: GamePlayerEntity;  // Undefined for damage from the world, such as the storm.
+  damage: number;
+  weaponName: string;
+  headshot: boolean;
+  timestamp: number;
+};
+
+/**
+ * Records every source of damage a player takes during a life,
+ * so the killer and assisters can be credited when they die.
+ */
+export default class DamageLedger {
+  private _records: DamageRecord[] = [];
+
+  public record(damage: number, attacker?: GamePlayerEntity, source: DamageSource = {}): void {
+    this._records.push({
+      attacker,
+      damage,
+      weaponName: source.weaponName ?? attacker?.getActiveItemName() ?? '',
+      headshot: source.headshot ?? false,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Gets the most recent damage record, optionally only from a specific attacker.
+   */
+  public getLastRecord(attacker?: GamePlayerEntity): DamageRecord | undefined {
+    for (let i = this._records.length - 1; i >= 0; i--) {
+      if (!attacker || this._records[i].attacker === attacker) {
+        return this._records[i];
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Gets every player other than the killer that damaged the victim within the assist window.
+   */
+  public getAssisters(victim: GamePlayerEntity, killer?: GamePlayerEntity): GamePlayerEntity[] {
+    const assistCutoff = Date.now() - ASSIST_WINDOW_MS;
+    const assisters = new Set<GamePlayerEntity>();
+
+    this._records.forEach(({ attacker, timestamp }) => {
+      if (attacker && attacker !== killer && attacker !== victim && attacker.isSpawned && timestamp >= assistCutoff) {
+        assisters.add(attacker);
+      }
+    });
+
+    return Array.from(assisters);
+  }
+
+  public clear(): void {
+    this._records = [];
+  }
+}
@@ -0,0 +1,160 @@
+import { Audio, CollisionGroup, CollisionGroupsBuilder, Entity, Quaternion, RigidBodyType, Vector3, Vector3Like, World } from 'hytopia';
+
+import { BEDROCK_BLOCK_ID, BLOCK_ID_BREAK_DAMAGE } from '../gameConfig';
+import TerrainEditManager from './TerrainEditManager';
+import type GamePlayerEntity from './GamePlayerEntity';
+
+const DEFAULT_SELF_DAMAGE_MULTIPLIER = 0.5;
+const EXPLOSION_EFFECT_MODEL_SCALE_PER_RADIUS = 0.05;
+const OCCLUSION_FILTER_GROUPS = CollisionGroupsBuilder.buildRawCollisionGroups({ // Only terrain shields players, not other entities
+  belongsTo: [ CollisionGroup.ALL ],
+  collidesWith: [ CollisionGroup.BLOCK ],
+});
+
+export type ExplosionOptions = {
+  position: Vector3Like;
+  radius: number;                 // Nothing further away than this is affected.
+  damage: number;                 // Player damage at the center, falling off linearly to 0 at the radius.
+  blockDamage?: number;           // Break damage at the center, blocks break when it beats their BLOCK_ID_BREAK_DAMAGE. Defaults to damage.
+  knockback?: number;             // Impulse per unit of player mass at the center, also falling off with distance.
+  selfDamageMultiplier?: number;  // Scales damage the source player does to themselves.
+  source?: GamePlayerEntity;      // The player credited with the damage and terrain edits.
+  weaponName?: string;            // Shown in the kill feed.
+  direction?: Vector3Like;        // The direction the explosion came from, orients the effect.
+};
+
+/**
+ * Explosions for rockets and anything else that blows up. Blocks within the
+ * radius break when the falloff damage beats their resistance, then players
+ * in line of sight take falloff damage and are knocked away from the center.
+ */
+export default class ExplosionManager {
+  public static instance: ExplosionManager = new ExplosionManager();
+
+  private constructor() {}
+
+  public explode(world: World, options: ExplosionOptions): void {
+    // Blocks break first so the players they were covering are exposed
+    this._breakBlocks(world, options);
+    this._damagePlayers(world, options);
+    this._playEffects(world, options);
+  }
+
+  private _breakBlocks(world: World, options: ExplosionOptions): void {
+    const { position, radius, source } = options;
+    const blockDamage = options.blockDamage ?? options.damage;
+    const center = { x: Math.floor(position.x), y: Math.floor(position.y), z: Math.floor(position.z) };
+    const blockRadius = Math.ceil(radius);
+
+    for (let dx = -blockRadius; dx <= blockRadius; dx++) {
+      for (let dy = -blockRadius; dy <= blockRadius; dy++) {
+        for (let dz = -blockRadius; dz <= blockRadius; dz++) {
+          const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+          if (distance > radius) continue;
+
+          const coordinate = { x: center.x + dx, y: center.y + dy, z: center.z + dz };
+          const blockId = world.chunkLattice.getBlockId(coordinate);
+          if (!blockId || blockId === BEDROCK_BLOCK_ID) continue;
+
+          const resistance = BLOCK_ID_BREAK_DAMAGE[blockId] ?? BLOCK_ID_BREAK_DAMAGE.default;
+          if (blockDamage * this._getFalloff(distance, radius) < resistance) continue;
+
+          TerrainEditManager.instance.setBlock(world, coordinate, 0, 'explosion', source?.player);
+        }
+      }
+    }
+  }
+
+  private _damagePlayers(world: World, options: ExplosionOptions): void {
+    const { position, radius, damage, knockback = 0, source, weaponName } = options;
+    const center = Vector3.fromVector3Like(position);
+
+    world.entityManager.getAllPlayerEntities().forEach(entity => {
+      const playerEntity = entity as GamePlayerEntity;
+      if (playerEntity.isDead || playerEntity.isSpectating) return;
+
+      const toPlayer = Vector3.fromVector3Like(playerEntity.position).subtract(center);
+      const distance = toPlayer.length;
+      if (distance > radius || this._isOccluded(world, position, toPlayer, distance)) return;
+
+      const falloff = this._getFalloff(distance, radius);
+      const selfDamageMultiplier = playerEntity === source ? options.selfDamageMultiplier ?? DEFAULT_SELF_DAMAGE_MULTIPLIER : 1;
+      const awayDirection = distance > 0 ? toPlayer.normalize() : new Vector3(0, 1, 0);
+
+      if (knockback) {
+        const impulse = knockback * falloff * playerEntity.mass;
+        playerEntity.applyImpulse({
+          x: awayDirection.x * impulse,
+          y: Math.max(awayDirection.y, 0.5) * impulse, // Always pop players up a little
+          z: awayDirection.z * impulse,
+        });
+      }
+
+      const playerDamage = Math.round(damage * falloff * selfDamageMultiplier);
+      if (playerDamage <= 0) return;
+
+      // The hit direction points back at the explosion, like paintball hits
+      const hitDirection = { x: -awayDirection.x, y: -awayDirection.y, z: -awayDirection.z };
+      playerEntity.takeDamage(playerDamage, hitDirection, source, { weaponName });
+    });
+  }
+
+  private _getFalloff(distance: number, radius: number): number {
+    return Math.max(0, 1 - distance / radius);
+  }
+
+  /**
+   * Whether a block stands between the explosion and the player.
+   */
+  private _isOccluded(world: World, position: Vector3Like, toPlayer: Vector3, distance: number): boolean {
+    if (distance < 1) return false;
+
+    const raycastHit = world.simulation.raycast(position, toPlayer.clone().normalize(), distance, {
+      filterGroups: OCCLUSION_FILTER_GROUPS,
+    });
+
+    return !!raycastHit?.hitBlock && raycastHit.hitDistance < distance - 0.5;
+  }
+
+  private _playEffects(world: World, options: ExplosionOptions): void {
+    const { position, radius, direction } = options;
+
+    const explosionEntity = new Entity({
+      modelUri: 'models/environment/explosion.glb',
+      modelScale: radius * EXPLOSION_EFFECT_MODEL_SCALE_PER_RADIUS,
+      rigidBodyOptions: { type: RigidBodyType.KINEMATIC_POSITION },
+    });
+
+    const explosionRotation = direction
+      ? Quaternion.fromEuler(
+        Math.atan2(-direction.y, Math.sqrt(direction.x * direction.x + direction.z * direction.z)) * 180 / Math.PI + 90,
+        Math.atan2(direction.x, direction.z) * 180 / Math.PI + 180, // Add 180 degrees to invert direction
+        0,
+      )
+      : undefined;
+
+    explosionEntity.spawn(world, position, explosionRotation);
+    explosionEntity.setCollisionGroupsForSolidColliders({
+      belongsTo: [],
+      collidesWith: [],
+    });
+
+    const explosionEffectInterval = setInterval(() => {
+      if (explosionEntity.opacity <= 0) {
+        explosionEntity.despawn();
+        clearInterval(explosionEffectInterval);
+        return;
+      }
+
+      explosionEntity.setOpacity(explosionEntity.opacity - 0.1);
+    }, 100);
+
+    (new Audio({
+      uri: 'audio/sfx/rocket-launcher-explosion.mp3',
+      position,
+      referenceDistance: 15,
+      cutoffDistance: 100,
+      volume: 0.4,
+    })).play(world);
+  }
+}
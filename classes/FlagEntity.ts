@@ -0,0 +1,162 @@
+import {
+  Collider,
+  CollisionGroup,
+  Entity,
+  QuaternionLike,
+  SceneUI,
+  Vector3Like,
+  World,
+} from 'hytopia';
+
+import { CTF_FLAG_AUTO_RETURN_MS } from '../gameConfig';
+import GameManager from './GameManager';
+import TeamManager from './TeamManager';
+import type GamePlayerEntity from './GamePlayerEntity';
+import type { Team } from './TeamManager';
+
+const CARRIED_POSITION = { x: 0, y: 0.4, z: 0.35 }; // On the carrier's back
+const FLAG_HALF_EXTENTS = { x: 0.3, y: 0.5, z: 0.05 };
+
+export type FlagEntityOptions = {
+  team: Team;                // The team the flag belongs to.
+  basePosition: Vector3Like; // Where the flag spawns and returns to.
+};
+
+export default class FlagEntity extends Entity {
+  public readonly team: Team;
+  public readonly basePosition: Vector3Like;
+  private _carrier: GamePlayerEntity | undefined;
+  private _isAtBase: boolean = true;
+  private readonly _labelSceneUI: SceneUI;
+  private _returnTimer: NodeJS.Timeout | undefined;
+
+  public constructor(options: FlagEntityOptions) {
+    super({
+      name: `${options.team.name} Flag`,
+      blockTextureUri: 'blocks/clay.png',
+      blockHalfExtents: FLAG_HALF_EXTENTS,
+      rigidBodyOptions: {
+        enabledRotations: { x: false, y: false, z: false },
+        colliders: [{
+          ...Collider.optionsFromBlockHalfExtents(FLAG_HALF_EXTENTS),
+          collisionGroups: {
+            belongsTo: [ CollisionGroup.ENTITY ],
+            collidesWith: [ CollisionGroup.BLOCK ],
+          },
+        }],
+      },
+    });
+
+    this.team = options.team;
+    this.basePosition = options.basePosition;
+
+    this._labelSceneUI = new SceneUI({
+      attachedToEntity: this,
+      templateId: 'item-label',
+      state: { name: this.name, quantity: -1 },
+      viewDistance: 16,
+      offset: { x: 0, y: 1, z: 0 },
+    });
+  }
+
+  public get carrier(): GamePlayerEntity | undefined { return this._carrier; }
+  public get isAtBase(): boolean { return this._isAtBase; }
+  public get state(): 'base' | 'carried' | 'dropped' {
+    return this._carrier ? 'carried' : this._isAtBase ? 'base' : 'dropped';
+  }
+
+  public override spawn(world: World, position: Vector3Like, rotation?: QuaternionLike): void {
+    super.spawn(world, position, rotation);
+
+    this.setTintColor(this.team.color);
+    this._labelSceneUI.load(world);
+  }
+
+  public override despawn(): void {
+    this._clearReturnTimer();
+    this._carrier?.setCarriedFlag(undefined);
+    this._carrier = undefined;
+
+    super.despawn();
+  }
+
+  /**
+   * Handles a player pressing interact on the flag. Enemies pick it up,
+   * teammates return it to base if it was dropped in the field.
+   */
+  public interact(player: GamePlayerEntity): void {
+    if (!this.world || this._carrier || player.isDead || !GameManager.instance.isGameActive) return;
+
+    const playerTeam = TeamManager.instance.getPlayerTeam(player.player.username);
+    if (!playerTeam) return;
+
+    if (playerTeam.id === this.team.id) {
+      if (!this._isAtBase) {
+        this.returnToBase();
+        this.world.chatManager.sendBroadcastMessage(`${player.player.username} returned the ${this.name}!`, this.team.chatColor);
+      }
+
+      return;
+    }
+
+    if (player.carriedFlag) return;
+
+    this._clearReturnTimer();
+    this._carrier = player;
+    this._isAtBase = false;
+    this.setParent(player, undefined, CARRIED_POSITION);
+    this._labelSceneUI.unload();
+    player.setCarriedFlag(this);
+
+    this.world.chatManager.sendBroadcastMessage(`${player.player.username} picked up the ${this.name}!`, playerTeam.chatColor);
+  }
+
+  /**
+   * Drops the flag where its carrier stands, it returns to base on its own if nobody touches it.
+   */
+  public drop(fromPosition: Vector3Like): void {
+    if (!this.world || !this._carrier) return;
+
+    const carrier = this._carrier;
+    this._carrier = undefined;
+    carrier.setCarriedFlag(undefined);
+
+    this.setParent(undefined, undefined, fromPosition);
+    this._labelSceneUI.load(this.world);
+    this.world.chatManager.sendBroadcastMessage(`${carrier.player.username} dropped the ${this.name}!`, this.team.chatColor);
+
+    this._returnTimer = setTimeout(() => {
+      if (!this.isSpawned || this._carrier || this._isAtBase) return;
+
+      this.returnToBase();
+      this.world?.chatManager.sendBroadcastMessage(`The ${this.name} returned to base.`, this.team.chatColor);
+    }, CTF_FLAG_AUTO_RETURN_MS);
+  }
+
+  public returnToBase(): void {
+    this._clearReturnTimer();
+    this._carrier?.setCarriedFlag(undefined);
+    this._carrier = undefined;
+    this._isAtBase = true;
+
+    if (!this.isSpawned) return;
+
+    if (this.parent) {
+      this.setParent(undefined, undefined, this.basePosition);
+    } else {
+      this.setPosition(this.basePosition);
+      this.setLinearVelocity({ x: 0, y: 0, z: 0 });
+    }
+
+    if (this.world) {
+      this._labelSceneUI.load(this.world);
+    }
+  }
+
+  private _clearReturnTimer(): void {
+    if (!this._returnTimer) return;
+
+    clearTimeout(this._returnTimer);
+    this._returnTimer = undefined;
+  }
+}
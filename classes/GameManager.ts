@@ -10,19 +10,30 @@ import worldMap from '../assets/map.json';
 
 import {
   BEDROCK_BLOCK_ID,
-  GAME_DURATION_MS,
+  CHEST_DROP_INTERVAL_MS,
+  CHEST_DROP_REGION_AABB,
+  CHEST_SPAWNS,
+  CHEST_SPAWNS_AT_START,
   ITEM_SPAWNS,
   ITEM_SPAWNS_AT_START,
-  ITEM_SPAWN_ITEMS,
-  MINIMUM_PLAYERS_TO_START,
   SPAWN_REGION_AABB,
   RANK_WIN_EXP,
 } from '../gameConfig';
 
+import ChestEntity from './ChestEntity';
+import GameMode from './gameModes/GameMode';
 import GamePlayerEntity from './GamePlayerEntity';
-import ItemFactory from './ItemFactory';
 import ItemEntity from './ItemEntity';
+import LootManager from './LootManager';
 import PickaxeEntity from './weapons/PickaxeEntity'; // Corrected path
+import PaintCoverageManager from './PaintCoverageManager';
+import PaintballProjectileEntity from './PaintballProjectileEntity';
+import SplatterManager from './SplatterManager';
+import StormManager from './StormManager';
+import TerrainDamageManager from './TerrainDamageManager';
+import TerrainEditManager from './TerrainEditManager';
+
+const GAME_MODE_TICK_INTERVAL_MS = 250;
 
 export default class GameManager {
   public static readonly instance = new GameManager();
@@ -30,18 +41,29 @@ export default class GameManager {
   public world: World | undefined;
   private _gameStartAt: number = 0;
   private _gameTimer: NodeJS.Timeout | undefined;
+  private _headshotCounts: Map<string, number> = new Map();
   private _playerCount: number = 0;
   private _restartTimer: NodeJS.Timeout | undefined;
-  private _killCounter: Map<string, number> = new Map();
+  private _supplyDropInterval: NodeJS.Timeout | undefined;
+  private _gameMode: GameMode | undefined;
+  private _gameModeTickInterval: NodeJS.Timeout | undefined;
   private _gameActive: boolean = false;
   private _isWaitingForPlayers: boolean = false;
   private _countdownTimer: NodeJS.Timeout | undefined;
-  private _countdownSeconds: number = 20;
+  private _countdownSeconds: number = 0;
   private _isCountingDown: boolean = false;
 
   public get isGameActive(): boolean { return this._gameActive; }
   public get isCountingDown(): boolean { return this._isCountingDown; }
 
+  public get gameMode(): GameMode {
+    if (!this._gameMode) {
+      throw new Error('GameManager.gameMode: setupGame() must be called first');
+    }
+
+    return this._gameMode;
+  }
+
   public get playerCount(): number { return this._playerCount; }
   public set playerCount(value: number) {
     this._playerCount = value;
@@ -49,11 +71,18 @@ export default class GameManager {
   }
 
   /**
-   * Sets up the game world and waits for players to join
+   * Sets up the game world with the game mode to run and waits for players to join
    */
-  public setupGame(world: World) {
+  public setupGame(world: World, gameMode: GameMode) {
     this.world = world;
+    this._gameMode = gameMode;
+    this._gameMode.setup(world);
     this._spawnBedrock(world);
+
+    // Rounds restore the terrain to how it is now
+    TerrainEditManager.instance.snapshot();
+
+    console.log(`>>> [GameManager] setupGame: Running game mode ${gameMode.name}`);
   }
 
   /**
@@ -64,6 +93,8 @@ export default class GameManager {
 
     console.log(`>>> [GameManager] handlePlayerJoined: Player ${player.username} joined. Current playerCount (before increment): ${this.playerCount}, gameActive: ${this._gameActive}, isCountingDown: ${this._isCountingDown}`);
 
+    this.gameMode.onPlayerJoined(player);
+
     await this.spawnPlayerEntity(player); // Await spawn completion (includes UI load)
     this.playerCount++; // Increment count
     console.log(`>>> [GameManager] handlePlayerJoined: playerCount incremented to ${this.playerCount}`);
@@ -89,6 +120,14 @@ export default class GameManager {
     }
   }
 
+  /**
+   * Handles player leaving, notifying the game mode and decrementing count.
+   */
+  public handlePlayerLeft(player: Player): void {
+    this.gameMode.onPlayerLeft(player);
+    this.playerCount--;
+  }
+
   /**
    * Starts the game when enough players have joined
    */
@@ -105,8 +144,18 @@ export default class GameManager {
     if (this._countdownTimer) clearTimeout(this._countdownTimer);
     this._sendCountdownUpdateToAll(0, false); // Hide countdown for all
 
+    // Players that spectated the last round rejoin, unless they chose to spectate
+    this.world.entityManager.getAllPlayerEntities().forEach(entity => {
+      if (entity instanceof GamePlayerEntity && entity.isSpectating && !entity.isSpectatingByChoice) {
+        entity.stopSpectating();
+      }
+    });
+
     // Clear any previous game state
-    this._killCounter.clear();
+    this.gameMode.onRoundStart();
+    this._headshotCounts.clear();
+    LootManager.instance.resetPity();
+    PaintCoverageManager.instance.reset();
     
     this._gameActive = true;
     this._gameStartAt = Date.now();
@@ -114,7 +163,20 @@ export default class GameManager {
     // Set end timer
     this._gameTimer = setTimeout(() => {
       this.endGame();
-    }, GAME_DURATION_MS);
+    }, this.gameMode.roundDurationMs);
+
+    // Tick the game mode for anything it tracks over time
+    this._gameModeTickInterval = setInterval(() => this._tickGameMode(), GAME_MODE_TICK_INTERVAL_MS);
+
+    // Start shrinking the safe zone for modes that use the storm
+    if (this.gameMode.stormEnabled) {
+      StormManager.instance.start(this.world);
+    }
+
+    // Place the round's loot and start dropping supply chests from the sky
+    this._spawnStartingChests();
+    this._spawnStartingItems();
+    this._supplyDropInterval = setInterval(() => this._spawnSupplyDrop(), CHEST_DROP_INTERVAL_MS);
     
     // Give all players a pistol
     const players = GameServer.instance.playerManager.getConnectedPlayersByWorld(this.world);
@@ -123,7 +185,13 @@ export default class GameManager {
       const playerEntities = this.world!.entityManager.getAllPlayerEntities();
       const gamePlayerEntity = playerEntities.find(entity => entity instanceof GamePlayerEntity && entity.player.username === player.username) as GamePlayerEntity | undefined;
       
-      if (gamePlayerEntity) {
+      if (gamePlayerEntity?.isSpectating) {
+          console.log(`>>> [GameManager] startGame: ${player.username} is spectating, skipping`);
+      } else if (gamePlayerEntity?.isDead) {
+          // Players eliminated last round are still spectating, respawning also gives them their gun
+          console.log(`>>> [GameManager] startGame: Respawning ${player.username}`);
+          gamePlayerEntity.respawn();
+      } else if (gamePlayerEntity) {
           console.log(`>>> [GameManager] startGame: Giving custom-gun to ${player.username}`);
           // Ensure the gun giving method is called
           gamePlayerEntity["_giveStartingGun"](); // Use bracket notation for private method access
@@ -154,8 +222,19 @@ export default class GameManager {
     
     this._gameActive = false;
     this.world.chatManager.sendBroadcastMessage('Game over! Starting the next round in 10 seconds...', 'FF0000');
+
+    // The round may have ended early, so make sure the end timer can't fire during the next round
+    if (this._gameTimer) {
+      clearTimeout(this._gameTimer);
+    }
+
+    clearInterval(this._gameModeTickInterval);
+    clearInterval(this._supplyDropInterval);
+    StormManager.instance.stop();
     
     this._identifyWinningPlayer();
+    this._sendRoundStats();
+    this.gameMode.onRoundEnd();
 
     // Clear any existing restart timer
     if (this._restartTimer) {
@@ -171,6 +250,7 @@ export default class GameManager {
     // Reset timer will call _waitForPlayersToStart eventually
     this._restartTimer = setTimeout(() => {
         console.log(">>> [GameManager] Restart timer elapsed. Checking if enough players to start...");
+        this._resetRound();
         this._waitForPlayersToStart(); // Start the check loop again
     }, 10 * 1000);
   }
@@ -193,6 +273,16 @@ export default class GameManager {
     // If game is active OR counting down, send relevant UI state
     if (this._gameActive) {
       this._sendGameStartAnnouncements(player);
+
+      // Rounds without respawns can't be joined late
+      if (!this.gameMode.respawnsEnabled) {
+        playerEntity.startSpectating();
+        this.world.chatManager.sendPlayerMessage(player, 'A round is in progress, you will join when the next round starts.', 'FFFF00');
+      }
+
+      if (StormManager.instance.isActive) {
+        StormManager.instance.syncZone(player);
+      }
     } else if (this._isCountingDown) {
       // Send current countdown state to the joining player
       player.ui.sendData({ type: 'countdown-update', seconds: this._countdownSeconds, show: true });
@@ -203,14 +293,58 @@ export default class GameManager {
   }
 
   /**
-   * Increments kill count for a player and updates the leaderboard
+   * Lets the game mode score a kill
    */
-  public addKill(playerUsername: string): void {
-    const killCount = this._killCounter.get(playerUsername) ?? 0;
-    const newKillCount = killCount + 1;
-    
-    this._killCounter.set(playerUsername, newKillCount);
-    this._updateLeaderboardUI(playerUsername, newKillCount);
+  public handlePlayerKilled(victim: GamePlayerEntity, attacker?: GamePlayerEntity): void {
+    if (!this._gameActive) return;
+
+    this.gameMode.onPlayerKilled(victim, attacker);
+    this.handleScoreChanged(attacker?.player.username);
+  }
+
+  /**
+   * Counts a headshot towards the attacker's end of round stats
+   */
+  public handleHeadshot(attacker: GamePlayerEntity): void {
+    if (!this._gameActive) return;
+
+    const username = attacker.player.username;
+    this._headshotCounts.set(username, (this._headshotCounts.get(username) ?? 0) + 1);
+  }
+
+  /**
+   * Lets the game mode know a living player left play to spectate
+   */
+  public handlePlayerStartedSpectating(playerEntity: GamePlayerEntity): void {
+    if (!this._gameActive) return;
+
+    this.gameMode.onPlayerStartedSpectating(playerEntity.player);
+  }
+
+  /**
+   * Updates the leaderboard after the game mode changed a score and ends the round if the mode says it is over
+   */
+  public handleScoreChanged(username?: string): void {
+    if (!this._gameActive) return;
+
+    if (username) {
+      this._updateLeaderboardUI(username);
+    }
+
+    if (this.gameMode.isRoundOver()) {
+      this.endGame();
+    }
+  }
+
+  /**
+   * Sends UI data to every connected player
+   */
+  public broadcastUIData(data: Record<string, unknown>): void {
+    if (!this.world) return;
+
+    GameServer.instance.playerManager.getConnectedPlayersByWorld(this.world).forEach(player => {
+      player.ui.sendData(data);
+    });
   }
 
   /**
@@ -224,13 +358,6 @@ export default class GameManager {
     };
   }
 
-  /**
-   * Returns the current kill counts for all players
-   */
-  public getKillCounts(): Record<string, number> {
-    return Object.fromEntries(this._killCounter);
-  }
-
   /**
    * Syncs the leaderboard UI for a specific player
    */
@@ -239,7 +366,7 @@ export default class GameManager {
 
     player.ui.sendData({
       type: 'leaderboard-sync',
-      killCounts: this.getKillCounts(),
+      ...this.gameMode.getScoreboard(),
     });
   }
 
@@ -256,63 +383,68 @@ export default class GameManager {
     const syncData = {
       type: 'timer-sync',
       startedAt: this._gameStartAt,
-      endsAt: this._gameStartAt + GAME_DURATION_MS,
+      endsAt: this._gameStartAt + this.gameMode.roundDurationMs,
     };
     console.log(`>>> [GameManager] syncTimer: Sending timer data to ${player.username}:`, syncData);
     player.ui.sendData(syncData);
   }
 
-  /**
-   * Resets the leaderboard and syncs it for all players
-   */
-  public resetLeaderboard() {
-    if (!this.world) return;
-
-    this._killCounter.clear();
-    
-    GameServer.instance.playerManager.getConnectedPlayersByWorld(this.world).forEach(player => {
-      this.syncLeaderboard(player);
-    });
-  }
-
   public _identifyWinningPlayer() {
     if (!this.world) return;
 
-    // Find player with most kills
-    let highestKills = 0;
-    let winningPlayer = '';
-    
-    this._killCounter.forEach((kills, player) => {
-      if (kills > highestKills) {
-        highestKills = kills;
-        winningPlayer = player;
-      }
+    const { usernames, focusUsername, team, placements } = this.gameMode.computeWinners();
+    if (!usernames.length) return;
+
+    // Announce the top of the final standings for placement based modes
+    placements?.slice(0, 3).forEach((username, index) => {
+      this.world!.chatManager.sendBroadcastMessage(`#${index + 1}: ${username}`, 'FFFF00');
     });
 
-    // Get winning player entity
-    const winningPlayerEntity = this.world.entityManager
+    const playerEntities = this.world.entityManager
       .getAllPlayerEntities()
-      .find(entity => entity.player.username === winningPlayer);
+      .filter(entity => entity instanceof GamePlayerEntity) as GamePlayerEntity[];
 
-    if (!winningPlayerEntity) return;
+    // Get the player entity every camera focuses on
+    const focusPlayerEntity = playerEntities.find(entity => entity.player.username === focusUsername);
 
-    // Give winning player XP for winning
-    if (winningPlayerEntity instanceof GamePlayerEntity) {
-      winningPlayerEntity.addExp(RANK_WIN_EXP);
-    }
+    playerEntities.forEach(playerEntity => {
+      // Give winning players XP for winning
+      if (usernames.includes(playerEntity.player.username)) {
+        playerEntity.addExp(RANK_WIN_EXP);
+      }
 
-    this.world.entityManager.getAllPlayerEntities().forEach(playerEntity => {
-      if (playerEntity instanceof GamePlayerEntity) {
-        if (playerEntity.player.username !== winningPlayer) { // don't change camera for the winner
-          playerEntity.focusCameraOnPlayer(winningPlayerEntity as GamePlayerEntity);
-        }
-          
-        playerEntity.player.ui.sendData({
-          type: 'announce-winner',
-          username: winningPlayer,
-        });
+      if (focusPlayerEntity && playerEntity !== focusPlayerEntity) { // don't change camera for the focused winner
+        playerEntity.focusCameraOnPlayer(focusPlayerEntity);
       }
+
+      playerEntity.player.ui.sendData({
+        type: 'announce-winner',
+        username: focusUsername ?? '',
+        team: team?.name,
+        placements,
+      });
+    });
+  }
+
+  /**
+   * Sends the end of round stats to all players and announces the top headshot player
+   */
+  private _sendRoundStats() {
+    if (!this.world) return;
+
+    const { killCounts } = this.gameMode.getScoreboard();
+    const headshotCounts = Object.fromEntries(this._headshotCounts);
+
+    this.broadcastUIData({
+      type: 'round-stats',
+      killCounts,
+      headshotCounts,
     });
+
+    const [ topHeadshotUsername, topHeadshots ] = Array.from(this._headshotCounts.entries()).sort((a, b) => b[1] - a[1])[0] ?? [];
+    if (topHeadshotUsername) {
+      this.world.chatManager.sendBroadcastMessage(`Most headshots: ${topHeadshotUsername} with ${topHeadshots}!`, 'FFFF00');
+    }
   }
 
   /**
@@ -336,10 +468,13 @@ export default class GameManager {
   private _sendGameStartAnnouncements(player: Player) {
     if (!this.world) return;
     
-    this.world.chatManager.sendPlayerMessage(player, 'Game started - most kills wins!', '00FF00');
+    this.gameMode.getStartAnnouncements(player).forEach(({ message, color }) => {
+      this.world!.chatManager.sendPlayerMessage(player, message, color);
+    });
     this.world.chatManager.sendPlayerMessage(player, '- Search for chests and weapons to survive');
     this.world.chatManager.sendPlayerMessage(player, '- Break blocks with your pickaxe to gain materials');
     this.world.chatManager.sendPlayerMessage(player, '- Right click to spend 3 materials to place a block');
+    this.world.chatManager.sendPlayerMessage(player, '- Press "C" to build walls, ramps, floors and pyramids instead');
     this.world.chatManager.sendPlayerMessage(player, '- Some weapons zoom with "Z". Drop items with "Q"');
   }
 
@@ -354,50 +489,134 @@ export default class GameManager {
     }
   }
 
+  /**
+   * Spawns chests at a random subset of the chest spawns
+   */
+  private _spawnStartingChests() {
+    if (!this.world) return;
+
+    const shuffledChestSpawns = [...CHEST_SPAWNS].sort(() => Math.random() - 0.5);
+
+    shuffledChestSpawns.slice(0, CHEST_SPAWNS_AT_START).forEach(spawn => {
+      (new ChestEntity()).spawn(this.world!, spawn.position, spawn.rotation);
+    });
+  }
+
+  /**
+   * Drops a chest from the sky at a random position in the drop region
+   */
+  private _spawnSupplyDrop() {
+    if (!this.world || !this._gameActive) return;
+
+    const position = {
+      x: CHEST_DROP_REGION_AABB.min.x + Math.random() * (CHEST_DROP_REGION_AABB.max.x - CHEST_DROP_REGION_AABB.min.x),
+      y: CHEST_DROP_REGION_AABB.min.y + Math.random() * (CHEST_DROP_REGION_AABB.max.y - CHEST_DROP_REGION_AABB.min.y),
+      z: CHEST_DROP_REGION_AABB.min.z + Math.random() * (CHEST_DROP_REGION_AABB.max.z - CHEST_DROP_REGION_AABB.min.z),
+    };
+
+    (new ChestEntity({ name: 'Supply Drop' })).spawn(this.world, position, Quaternion.fromEuler(0, Math.random() * 360 - 180, 0));
+
+    this.broadcastUIData({ type: 'supply-drop', position });
+    this.world.chatManager.sendBroadcastMessage(`A supply drop is falling near ${Math.round(position.x)}, ${Math.round(position.z)}!`, '00FFFF');
+  }
+
+  /**
+   * Despawns chests, loot lying in the world and projectiles left over from the round
+   */
+  private _despawnRoundEntities() {
+    if (!this.world) return;
+
+    const leftoverEntities = [
+      ...this.world.entityManager.getAllEntities().filter(entity => (
+        entity instanceof ChestEntity ||
+        entity instanceof PaintballProjectileEntity ||
+        (entity instanceof ItemEntity && !entity.parent)
+      )),
+      ...this.world.entityManager.getEntitiesByTag('rocket'),
+    ];
+
+    leftoverEntities.forEach(entity => {
+      if (entity instanceof ItemEntity) {
+        entity.stopDespawnTimer();
+      }
+
+      if (entity.isSpawned) {
+        entity.despawn();
+      }
+    });
+  }
+
+  /**
+   * Puts the world back to how it was before the round, restoring edited
+   * terrain, clearing leftover entities and resetting every player
+   */
+  private _resetRound() {
+    if (!this.world) return;
+
+    // Keep the round's terrain edits for post-match analysis before they are rolled back
+    if (TerrainEditManager.instance.journal.length) {
+      TerrainEditManager.instance.saveJournal().catch(error => {
+        console.error('>>> [GameManager] _resetRound: Failed to save terrain journal', error);
+      });
+    }
+
+    TerrainEditManager.instance.restore(this.world);
+    TerrainDamageManager.instance.reset();
+    SplatterManager.instance.reset();
+    this._despawnRoundEntities();
+
+    this.world.entityManager.getAllPlayerEntities().forEach(entity => {
+      if (entity instanceof GamePlayerEntity) {
+        entity.resetForRound();
+      }
+    });
+  }
+
   /**
    * Spawns initial items at random positions
    */
   private _spawnStartingItems() {
     if (!this.world) return;
-    
-    // If there are no items configured to spawn, just exit.
-    if (ITEM_SPAWN_ITEMS.length === 0) {
-      return;
-    }
-    
+
     const shuffledItemSpawns = [...ITEM_SPAWNS].sort(() => Math.random() - 0.5);
     const selectedItemSpawns = shuffledItemSpawns.slice(0, ITEM_SPAWNS_AT_START);
-    const totalWeight = ITEM_SPAWN_ITEMS.reduce((sum, item) => sum + item.pickWeight, 0);
 
     selectedItemSpawns.forEach(async spawn => {
-      // Select random item based on weight
-      let random = Math.random() * totalWeight;
-      let selectedItem = ITEM_SPAWN_ITEMS[0];
-      
-      for (const item of ITEM_SPAWN_ITEMS) {
-        random -= item.pickWeight;
-        if (random <= 0) {
-          selectedItem = item;
-          break;
-        }
-      }
+      const items = await LootManager.instance.createItems('item-spawn');
 
-      const item = await ItemFactory.createItem(selectedItem.itemId);
-      item.spawn(this.world!, spawn.position, Quaternion.fromEuler(0, Math.random() * 360 - 180, 0));
+      items.forEach(item => {
+        item.spawn(this.world!, spawn.position, Quaternion.fromEuler(0, Math.random() * 360 - 180, 0));
+      });
     });
   }
 
+  /**
+   * Ticks the active game mode and ends the round if the mode says it is over
+   */
+  private _tickGameMode() {
+    if (!this._gameActive) return;
+
+    this.gameMode.onTick(GAME_MODE_TICK_INTERVAL_MS);
+
+    if (this.gameMode.isRoundOver()) {
+      this.endGame();
+    }
+  }
+
   /**
    * Updates the leaderboard UI for all players
    */
-  private _updateLeaderboardUI(username: string, killCount: number) {
+  private _updateLeaderboardUI(username: string) {
     if (!this.world) return;
 
+    const { killCounts, ...scoreboard } = this.gameMode.getScoreboard();
+
     GameServer.instance.playerManager.getConnectedPlayersByWorld(this.world).forEach(player => {
       player.ui.sendData({
         type: 'leaderboard-update',
         username,
-        killCount,
+        killCount: killCounts[username] ?? 0,
+        ...scoreboard,
       });
     });
   }
@@ -430,9 +649,9 @@ export default class GameManager {
     if (!this.world) return;
 
     const connectedPlayers = GameServer.instance.playerManager.getConnectedPlayersByWorld(this.world).length;
-    console.log(`>>> [GameManager] _waitForPlayersToStart: Checking start condition. Found ${connectedPlayers} connected players. Minimum needed: ${MINIMUM_PLAYERS_TO_START}`);
+    console.log(`>>> [GameManager] _waitForPlayersToStart: Checking start condition. Found ${connectedPlayers} connected players. Minimum needed: ${this.gameMode.minimumPlayers}`);
 
-    if (connectedPlayers >= MINIMUM_PLAYERS_TO_START) {
+    if (connectedPlayers >= this.gameMode.minimumPlayers) {
       console.log(`>>> [GameManager] _waitForPlayersToStart: Player count met or exceeded. Starting countdown.`);
       this._isWaitingForPlayers = false; // Stop waiting, start counting down
       this._startCountdown();
@@ -448,7 +667,7 @@ export default class GameManager {
   }
 
   /**
-   * Starts the 10-second countdown before the game begins.
+   * Starts the game mode's countdown before the game begins.
    */
   private _startCountdown() {
     if (this._isCountingDown) {
@@ -457,9 +676,9 @@ export default class GameManager {
       clearTimeout(this._countdownTimer);
     }
     
-    console.log(`>>> [GameManager] _startCountdown: Starting 20 second countdown.`);
+    console.log(`>>> [GameManager] _startCountdown: Starting ${this.gameMode.countdownSeconds} second countdown.`);
     this._isCountingDown = true;
-    this._countdownSeconds = 20;
+    this._countdownSeconds = this.gameMode.countdownSeconds;
     this._sendCountdownUpdateToAll(this._countdownSeconds, true); // Show timer for all
 
     this._countdownTimer = setInterval(() => {
@@ -1,6 +1,10 @@
 import { 
   Audio,
   BaseEntityControllerEvent,
+  Collider,
+  ColliderShape,
+  CollisionGroup,
+  Entity,
   EventPayloads,
   Player,
   PlayerEntity,
@@ -10,26 +14,49 @@ import {
   World,
   PlayerEntityController,
   PlayerUIEvent,
+  RigidBodyType,
   SceneUI,
   ErrorHandler,
 } from 'hytopia';
 
+import AABB from './AABB';
 import ChestEntity from './ChestEntity';
+import DamageLedger from './DamageLedger';
+import FlagEntity from './FlagEntity';
 import GunEntity from './GunEntity';
 import ItemEntity from './ItemEntity';
 import PickaxeEntity from './weapons/PickaxeEntity';
 import MeleeWeaponEntity from './MeleeWeaponEntity';
 import ItemFactory from './ItemFactory';
-import { BUILD_BLOCK_ID, RANKS, RANK_KILL_EXP, RANK_SAVE_INTERVAL_EXP } from '../gameConfig';
+import PositionHistory from './PositionHistory';
+import { BUILD_BLOCK_ID, BUILD_PREFABS, CTF_FLAG_CARRIER_WALK_VELOCITY, IDLE_SPECTATE_TIMEOUT_MS, RANKS, RANK_ASSIST_EXP, RANK_KILL_EXP, RANK_SAVE_INTERVAL_EXP, RAYCAST_FILTER_GROUPS } from '../gameConfig';
 import GameManager from './GameManager';
+import TeamManager from './TeamManager';
+import TerrainEditManager from './TerrainEditManager';
+import type { AABBLike } from './AABB';
+import type { DamageSource } from './DamageLedger';
 
 const BASE_HEALTH = 100;
 const BASE_SHIELD = 0;
 const BLOCK_MATERIAL_COST = 3;
+const BUILD_PREVIEW_HIDDEN_POSITION = { x: 0, y: -300, z: 0 };
+const BUILD_RANGE = 5;
+const FREE_FLY_VELOCITY = 15;
+const HEAD_OFFSET_Y = 0.5; // Head center, around eye height
+const HEAD_RADIUS = 0.25; // Shared by the headshot sensor and the rewound head hitbox
+const IDLE_CHECK_INTERVAL_MS = 5000;
 const INTERACT_RANGE = 4;
+const LATENCY_PING_INTERVAL_MS = 2000;
 const MAX_HEALTH = 100;
 const MAX_SHIELD = 100;
+const PLAYER_COLLISION_GROUPS = { belongsTo: [ CollisionGroup.ENTITY, CollisionGroup.PLAYER ], collidesWith: [ CollisionGroup.ALL ] };
+const PLAYER_HALF_EXTENTS = { x: 0.4, y: 0.9, z: 0.4 }; // Roughly the player collider, blocks can't be placed inside it
+const POSITION_HISTORY_SIZE = 32; // About half a second of ticks
+const RUN_VELOCITY = 18;
+const SPECTATOR_COLLISION_GROUPS = { belongsTo: [ CollisionGroup.PLAYER ], collidesWith: [ CollisionGroup.BLOCK ] };
+const SPECTATOR_MOVEMENT_KEYS = [ 'w', 'a', 's', 'd', 'sp', 'sh' ];
 const TOTAL_INVENTORY_SLOTS = 6;
+const WALK_VELOCITY = 6;
 
 interface InventoryItem {
   name: string;
@@ -42,18 +69,31 @@ interface PlayerPersistedData extends Record<string, unknown> {
 }
 
 export default class GamePlayerEntity extends PlayerEntity {
+  private _buildPrefabIndex: number | undefined; // Index into BUILD_PREFABS while in build mode
+  private _buildPreviewEntities: Entity[] = [];
+  private _carriedFlag: FlagEntity | undefined;
   private readonly _damageAudio: Audio;
+  private readonly _damageLedger: DamageLedger = new DamageLedger();
   private readonly _inventory: (ItemEntity | undefined)[] = new Array(TOTAL_INVENTORY_SLOTS).fill(undefined);
   private _dead: boolean = false;
+  private _freeFlyPosition: Vector3Like | undefined;
+  private _headshotCollider: Collider | undefined;
   private _health: number = BASE_HEALTH;
   private _inventoryActiveSlotIndex: number = 0;
   private _lastExpSave: number = 0;
+  private _lastInputAt: number = Date.now();
+  private _latencyMs: number = 0;
+  private _materials: number = 0;
   private _maxHealth: number = MAX_HEALTH;
   private _maxShield: number = MAX_SHIELD;
+  private readonly _positionHistory: PositionHistory = new PositionHistory(POSITION_HISTORY_SIZE);
   private _rankIndex: number = 0;
   private _rankSceneUI: SceneUI;
   private _respawnTimer: NodeJS.Timeout | undefined;
   private _shield: number = BASE_SHIELD;
+  private _spectateTarget: GamePlayerEntity | undefined;
+  private _spectating: boolean = false;
+  private _spectatingByChoice: boolean = false;
   private _totalExp: number = 0;
 
   // Player entities always assign a PlayerController to the entity
@@ -78,6 +118,15 @@ export default class GamePlayerEntity extends PlayerEntity {
 
   public get isDead(): boolean { return this._dead; }
 
+  public get latencyMs(): number { return this._latencyMs; } // Round trip time to the player's client.
+
+  public get materials(): number { return this._materials; }
+
+  public get carriedFlag(): FlagEntity | undefined { return this._carriedFlag; }
+
+  public get isSpectating(): boolean { return this._spectating; }
+  public get isSpectatingByChoice(): boolean { return this._spectatingByChoice; }
+
   public constructor(player: Player) {
     super({
       player,
@@ -89,7 +138,6 @@ export default class GamePlayerEntity extends PlayerEntity {
     this._setupPlayerController();
     this._setupPlayerUI();
     this._setupPlayerCamera();
-    this._setupPlayerHeadshotCollider();
     
     this._rankSceneUI = new SceneUI({
       attachedToEntity: this,
@@ -109,6 +157,9 @@ export default class GamePlayerEntity extends PlayerEntity {
 
   public override async spawn(world: World, position: Vector3Like, rotation?: QuaternionLike): Promise<void> {
     super.spawn(world, position, rotation);
+
+    // The head sensor needs the rigid body created by spawning
+    this._setupPlayerHeadshotCollider();
     
     // Setup inventory (sync for now, but await is good practice)
     this._setupPlayerInventory(); 
@@ -123,17 +174,48 @@ export default class GamePlayerEntity extends PlayerEntity {
     
     // Start tickers
     this._autoHealTicker();
+    this._idleTicker();
+    this._latencyTicker();
     this._outOfWorldTicker();
     
     // Initial UI updates after UI is loaded
     this._updatePlayerUIHealth();
     this._updatePlayerUIInventory(); 
+    this._updatePlayerUIMaterials();
 
     // Load scene UI
     this._rankSceneUI.load(world);
     console.log(`>>> [${this.player.username}] spawn: Spawn method completed.`);
   }
 
+  public override despawn(): void {
+    // Build previews aren't children of the player, so they need to be cleaned up separately
+    this._setBuildPrefab(undefined);
+    super.despawn();
+  }
+
+  /**
+   * The body and head hitboxes where the player was at the timestamp, for lag compensated hits.
+   */
+  public getHitboxesAt(timestamp: number): { body: AABBLike, head: AABBLike } | undefined {
+    const position = this._positionHistory.getPositionAt(timestamp);
+    if (!position) return;
+
+    const { x, y, z } = position;
+    const headY = y + HEAD_OFFSET_Y;
+
+    return {
+      body: {
+        min: { x: x - PLAYER_HALF_EXTENTS.x, y: y - PLAYER_HALF_EXTENTS.y, z: z - PLAYER_HALF_EXTENTS.z },
+        max: { x: x + PLAYER_HALF_EXTENTS.x, y: y + PLAYER_HALF_EXTENTS.y, z: z + PLAYER_HALF_EXTENTS.z },
+      },
+      head: {
+        min: { x: x - HEAD_RADIUS, y: headY - HEAD_RADIUS, z: z - HEAD_RADIUS },
+        max: { x: x + HEAD_RADIUS, y: headY + HEAD_RADIUS, z: z + HEAD_RADIUS },
+      },
+    };
+  }
+
   public addExp(exp: number): void {
     this._totalExp += exp;
     this._updatePlayerUIExp();
@@ -145,6 +227,11 @@ export default class GamePlayerEntity extends PlayerEntity {
     }
   }
 
+  public addMaterial(amount: number): void {
+    this._materials = Math.max(0, this._materials + amount);
+    this._updatePlayerUIMaterials();
+  }
+
   public addItemToInventory(item: ItemEntity): void {
     const slot = this._findInventorySlot();
 
@@ -161,13 +248,32 @@ export default class GamePlayerEntity extends PlayerEntity {
   public checkDeath(attacker?: GamePlayerEntity): void {
     if (this.health <= 0) {
       this._dead = true;
+      this._setBuildPrefab(undefined);
+
+      // Credit the killer and everyone that recently damaged this player before the kill can end the round
+      const killingBlow = this._damageLedger.getLastRecord(attacker);
+      const assisters = this._damageLedger.getAssisters(this, attacker);
+      this._damageLedger.clear();
 
       if (attacker) {
-        GameManager.instance.addKill(attacker.player.username);
         attacker.addExp(RANK_KILL_EXP);
         this.focusCameraOnPlayer(attacker);
       }
 
+      assisters.forEach(assister => assister.addExp(RANK_ASSIST_EXP));
+
+      GameManager.instance.broadcastUIData({
+        type: 'kill-feed',
+        killer: attacker?.player.username,
+        victim: this.player.username,
+        weapon: killingBlow?.weaponName ?? '',
+        headshot: killingBlow?.headshot ?? false,
+        assisters: assisters.map(assister => assister.player.username),
+      });
+
+      const wasGameActive = GameManager.instance.isGameActive;
+      GameManager.instance.handlePlayerKilled(this, attacker);
+
       this.dropAllInventoryItems();
 
       if (this.isSpawned && this.world) {
@@ -177,15 +283,18 @@ export default class GamePlayerEntity extends PlayerEntity {
         });
 
         this.playerController.idleLoopedAnimations = [ 'sleep' ];
-        this.world.chatManager.sendPlayerMessage(this.player, 'You have died! Respawning in 5 seconds...', 'FF0000');
-        this._respawnTimer = setTimeout(() => this.respawn(), 5 * 1000);
-
-        if (attacker) {
-          if (this.player.username !== attacker.player.username) {
-            this.world.chatManager.sendBroadcastMessage(`${attacker.player.username} killed ${this.player.username} with a ${attacker.getActiveItemName()}!`, 'FF0000');
-          } else {
-            this.world.chatManager.sendBroadcastMessage(`${this.player.username} self-destructed!`, 'FF0000');
-          }
+
+        // The round ending resets every player and focuses cameras on the winner
+        if (wasGameActive && !GameManager.instance.isGameActive) return;
+
+        const { respawnDelayMs, respawnsEnabled } = GameManager.instance.gameMode;
+        if (respawnsEnabled) {
+          this.world.chatManager.sendPlayerMessage(this.player, `You have died! Respawning in ${Math.round(respawnDelayMs / 1000)} seconds...`, 'FF0000');
+          this._respawnTimer = setTimeout(() => this.respawn(), respawnDelayMs);
+        } else {
+          // Eliminated players spectate until the next round starts
+          this.world.chatManager.sendPlayerMessage(this.player, 'You have been eliminated! Spectating until the next round...', 'FF0000');
+          this.startSpectating(attacker);
         }
       }
     }
@@ -197,10 +306,11 @@ export default class GamePlayerEntity extends PlayerEntity {
     this.player.camera.setModelHiddenNodes([]);
   }
 
-  public dealtDamage(damage: number): void {
+  public dealtDamage(damage: number, headshot: boolean = false): void {
     this.player.ui.sendData({
       type: 'show-damage',
       damage,
+      headshot,
     });
   }
   
@@ -221,6 +331,8 @@ export default class GamePlayerEntity extends PlayerEntity {
   }
 
   public dropAllInventoryItems(): void {
+    this._carriedFlag?.drop(this.position);
+
     // skip 0 (pickaxe) and 1 (gun), we cannot drop these
     for (let i = 2; i < this._inventory.length; i++) {
       const item = this._inventory[i];
@@ -245,6 +357,10 @@ export default class GamePlayerEntity extends PlayerEntity {
     return this._inventory.findIndex(slot => slot === item);
   }
 
+  public isHeadshotCollider(colliderHandle: number): boolean {
+    return this._headshotCollider?.rawCollider?.handle === colliderHandle;
+  }
+
   public isItemActiveInInventory(item: ItemEntity): boolean {
     return this._inventory[this._inventoryActiveSlotIndex] === item;
   }
@@ -281,19 +397,41 @@ export default class GamePlayerEntity extends PlayerEntity {
   public respawn(): void {
     if (!this.world) return;
 
-    this._dead = false;
-    this.health = this._maxHealth;
-    this.shield = 0;
-    this.resetAnimations();
-    this.player.camera.setAttachedToEntity(this);
-    this._setupPlayerCamera();
-    this.setActiveInventorySlotIndex(0);
-    this.setPosition(GameManager.instance.getRandomSpawnPosition());
+    this._resetToSpawn();
 
     // Give the player their starting gun again
     this._giveStartingGun();
   }
 
+  /**
+   * Takes everything but the pickaxe and puts the player back at a spawn
+   * with full health, the round start gives them their gun.
+   */
+  public resetForRound(): void {
+    if (!this.world) return;
+
+    this.setCarriedFlag(undefined);
+
+    for (let i = 1; i < this._inventory.length; i++) {
+      const item = this._inventory[i];
+      if (!item) continue;
+
+      item.stopDespawnTimer();
+      item.despawn();
+      this._inventory[i] = undefined;
+    }
+
+    this._updatePlayerUIInventory();
+
+    this._materials = 0;
+    this._updatePlayerUIMaterials();
+
+    // Players spectating by choice keep spectating into the next round
+    if (this._spectatingByChoice) return;
+
+    this._resetToSpawn();
+  }
+
   public savePersistedData(): void {
     let data: PlayerPersistedData = {
       totalExp: this._totalExp,
@@ -316,12 +454,106 @@ export default class GamePlayerEntity extends PlayerEntity {
     this._updatePlayerUIInventoryActiveSlot();
   }
 
+  /**
+   * Sets the flag the player is carrying, flag carriers are forced to walk slowly.
+   */
+  public setCarriedFlag(flag: FlagEntity | undefined): void {
+    this._carriedFlag = flag;
+    this.playerController.walkVelocity = flag ? CTF_FLAG_CARRIER_WALK_VELOCITY : WALK_VELOCITY;
+    this.playerController.runVelocity = flag ? CTF_FLAG_CARRIER_WALK_VELOCITY : RUN_VELOCITY;
+  }
+
+  /**
+   * Turns the player into an invisible spectator that can't be hit, watching living players
+   * or flying freely. Players that spectate by choice keep spectating across rounds.
+   */
+  public startSpectating(target?: GamePlayerEntity, byChoice: boolean = false): void {
+    if (!this.world) return;
+
+    this._spectatingByChoice = this._spectatingByChoice || byChoice;
+    if (this._spectating) return;
+
+    const wasPlaying = !this._dead;
+
+    clearTimeout(this._respawnTimer);
+    this._spectating = true;
+    this._setBuildPrefab(undefined);
+
+    if (wasPlaying) {
+      this.dropAllInventoryItems();
+    }
+
+    // Spectators only collide with blocks, so projectiles and players pass through them
+    this.setOpacity(0);
+    this.setCollisionGroupsForSolidColliders(SPECTATOR_COLLISION_GROUPS);
+    this.nametagSceneUI.unload();
+    this._rankSceneUI.unload();
+
+    this.world.chatManager.sendPlayerMessage(this.player, 'You are spectating - left/right click to switch players, "F" to toggle free-fly.', 'AAAAAA');
+
+    if (target && this._canSpectate(target)) {
+      this._spectatePlayer(target);
+    } else {
+      this._cycleSpectateTarget(1);
+    }
+
+    if (wasPlaying) {
+      GameManager.instance.handlePlayerStartedSpectating(this);
+    }
+  }
+
+  public stopSpectating(): void {
+    if (!this.world || !this._spectating) return;
+
+    this._spectating = false;
+    this._spectatingByChoice = false;
+    this._spectateTarget = undefined;
+    this._freeFlyPosition = undefined;
+
+    this.setOpacity(1);
+    this.setCollisionGroupsForSolidColliders(PLAYER_COLLISION_GROUPS);
+    this.nametagSceneUI.load(this.world);
+    this._rankSceneUI.load(this.world);
+    this.resetCamera();
+    this._updatePlayerUISpectator();
+  }
+
+  /**
+   * Opts the player in or out of spectating, used by the /spectate command.
+   */
+  public toggleSpectating(): void {
+    if (!this.world) return;
+
+    if (!this._spectating) {
+      this.startSpectating(undefined, true);
+      return;
+    }
+
+    // Rounds without respawns can't be rejoined, so wait for the next one
+    if (GameManager.instance.isGameActive && !GameManager.instance.gameMode.respawnsEnabled) {
+      this._spectatingByChoice = false;
+      this.world.chatManager.sendPlayerMessage(this.player, 'You will rejoin when the next round starts.', 'FFFF00');
+      return;
+    }
+
+    this.respawn();
+  }
+
   public setGravity(gravityScale: number): void {
     this.setGravityScale(gravityScale);
   }
 
-  public takeDamage(damage: number, hitDirection: Vector3Like, attacker?: GamePlayerEntity): void {
-    if (!this.isSpawned || !this.world || !GameManager.instance.isGameActive || this._dead) return;
+  public takeDamage(damage: number, hitDirection: Vector3Like, attacker?: GamePlayerEntity, source?: DamageSource): void {
+    if (!this.isSpawned || !this.world || !GameManager.instance.isGameActive || this._dead || this._spectating) return;
+
+    // No friendly fire, but players can still damage themselves (e.g. rockets)
+    if (attacker && attacker !== this && TeamManager.instance.areTeammates(attacker.player.username, this.player.username)) return;
+
+    this._damageLedger.record(damage, attacker, source);
+
+    if (attacker && attacker !== this && source?.headshot) {
+      GameManager.instance.handleHeadshot(attacker);
+    }
 
     this._playDamageAudio();
 
@@ -376,14 +608,32 @@ export default class GamePlayerEntity extends PlayerEntity {
     });
   }
 
+  private _resetToSpawn(): void {
+    // A round start can respawn a player before their pending respawn fires
+    clearTimeout(this._respawnTimer);
+    this.stopSpectating();
+
+    this._dead = false;
+    this._damageLedger.clear();
+    this._lastInputAt = Date.now();
+    this.health = this._maxHealth;
+    this.shield = 0;
+    this.resetAnimations();
+    this.player.camera.setAttachedToEntity(this);
+    this._setupPlayerCamera();
+    this.setActiveInventorySlotIndex(0);
+    this.setPosition(GameManager.instance.getRandomSpawnPosition());
+    this._positionHistory.clear(); // Don't rewind hits to before the teleport
+  }
+
   private _setupPlayerController(): void {
     // Make the controller not automatically cancel left click input
     // So we can handle it ourselves for shooting, etc.
     this.playerController.autoCancelMouseLeftClick = false;
 
     // Set custom movement speeds
-    this.playerController.walkVelocity = 6; // Set walk speed to 6
-    this.playerController.runVelocity = 18; // Set run speed to 18
+    this.playerController.walkVelocity = WALK_VELOCITY;
+    this.playerController.runVelocity = RUN_VELOCITY;
 
     // Reset animations to defaults initially
     this.resetAnimations();
@@ -392,13 +642,17 @@ export default class GamePlayerEntity extends PlayerEntity {
   }
 
   private _setupPlayerHeadshotCollider(): void {
-    // TODO
-    // this.createAndAddChildCollider({
-    //   shape: ColliderShape.BALL,
-    //   radius: 0.45,
-    //   relativePosition: { x: 0, y: 0.4, z: 0 },
-    //   isSensor: true,
-    // });
+    // Only projectiles check for this sensor, see PaintballProjectileEntity
+    this._headshotCollider = this.createAndAddChildCollider({
+      shape: ColliderShape.BALL,
+      radius: HEAD_RADIUS,
+      relativePosition: { x: 0, y: HEAD_OFFSET_Y, z: 0 },
+      isSensor: true,
+      collisionGroups: {
+        belongsTo: [ CollisionGroup.ENTITY_SENSOR ],
+        collidesWith: [ CollisionGroup.ENTITY ],
+      },
+    });
   }
 
   private _setupPlayerInventory(): void {
@@ -458,6 +712,10 @@ export default class GamePlayerEntity extends PlayerEntity {
       if (data.type === 'inventory-select') {
         this.setActiveInventorySlotIndex(data.index);
       }
+
+      if (data.type === 'pong' && typeof data.sentAt === 'number') {
+        this._updateLatency(Date.now() - data.sentAt);
+      }
     });
   }
 
@@ -468,18 +726,45 @@ export default class GamePlayerEntity extends PlayerEntity {
   }
 
   private _onTickWithPlayerInput = (payload: EventPayloads[BaseEntityControllerEvent.TICK_WITH_PLAYER_INPUT]): void => {
-    const { input } = payload;
+    const { input, deltaTimeMs } = payload;
+
+    if (Object.values(input).some(Boolean)) {
+      this._lastInputAt = Date.now();
+    }
+
+    if (this._spectating) {
+      this._handleSpectatorInput(input, deltaTimeMs);
+      return;
+    }
 
     if (this._dead) {
       return;
     }
 
+    this._positionHistory.record(this.position);
+
     if (input.ml) {
       this._handleMouseLeftClick();
     }
 
     if (input.mr) {
       this._handleMouseRightClick();
+      input.mr = false;
+    }
+
+    if (input.c) {
+      this._cycleBuildPrefab();
+      input.c = false;
+    }
+
+    if (this._buildPrefabIndex !== undefined) {
+      this._updateBuildPreview();
+    }
+
+    // Spread changes with movement and bloom recovery, not just when shooting
+    const activeItem = this._inventory[this._inventoryActiveSlotIndex];
+    if (activeItem instanceof GunEntity) {
+      activeItem.updateCrosshairSpreadUI();
     }
 
     if (input.e) {
@@ -522,8 +807,135 @@ export default class GamePlayerEntity extends PlayerEntity {
   }
 
   private _handleMouseRightClick(): void {
-    // Right click is currently unassigned. 
-    // Previously handled block placement raycasting.
+    if (!this.world) return;
+
+    const coordinates = this._getBuildCoordinates();
+    if (!coordinates.length) return;
+
+    if (coordinates.some(coordinate => !TerrainEditManager.instance.canEdit(this.world!, coordinate, 'build', this.player))) return;
+
+    const cost = coordinates.length * BLOCK_MATERIAL_COST;
+
+    if (this._materials < cost) {
+      this.world.chatManager.sendPlayerMessage(this.player, `You need ${cost} materials to build that, break blocks with your pickaxe to get more.`, 'FFFF00');
+      return;
+    }
+
+    coordinates.forEach(coordinate => TerrainEditManager.instance.setBlock(this.world!, coordinate, BUILD_BLOCK_ID, 'build', this.player));
+    this.addMaterial(-cost);
+  }
+
+  /**
+   * Cycles single block placement through every prefab and back, showing a
+   * preview of where the prefab will be built while one is selected.
+   */
+  private _cycleBuildPrefab(): void {
+    const nextIndex = this._buildPrefabIndex === undefined ? 0 : this._buildPrefabIndex + 1;
+    this._setBuildPrefab(nextIndex < BUILD_PREFABS.length ? nextIndex : undefined);
+
+    const prefab = this._buildPrefabIndex !== undefined ? BUILD_PREFABS[this._buildPrefabIndex] : undefined;
+    const message = prefab
+      ? `Building ${prefab.name} (${prefab.blocks.length * BLOCK_MATERIAL_COST} materials) - "C" for the next prefab`
+      : 'Building single blocks - "C" to build prefabs';
+
+    this.world?.chatManager.sendPlayerMessage(this.player, message, 'AAAAAA');
+  }
+
+  private _setBuildPrefab(index: number | undefined): void {
+    this._buildPrefabIndex = index;
+
+    this._buildPreviewEntities.forEach(entity => {
+      if (entity.isSpawned) {
+        entity.despawn();
+      }
+    });
+
+    this._buildPreviewEntities = [];
+
+    if (index === undefined || !this.world) return;
+
+    // Ghost blocks only visible to the eye, they never collide with anything or block raycasts
+    this._buildPreviewEntities = BUILD_PREFABS[index].blocks.map(() => {
+      const previewEntity = new Entity({
+        blockTextureUri: 'blocks/stone.png',
+        blockHalfExtents: { x: 0.5, y: 0.5, z: 0.5 },
+        rigidBodyOptions: { type: RigidBodyType.KINEMATIC_POSITION },
+      });
+
+      previewEntity.spawn(this.world!, BUILD_PREVIEW_HIDDEN_POSITION);
+      previewEntity.setCollisionGroupsForSolidColliders({ belongsTo: [], collidesWith: [] });
+      previewEntity.setOpacity(0.4);
+
+      return previewEntity;
+    });
+  }
+
+  private _updateBuildPreview(): void {
+    const coordinates = this._getBuildCoordinates();
+    const buildable = this._materials >= coordinates.length * BLOCK_MATERIAL_COST &&
+      coordinates.every(coordinate => !TerrainEditManager.instance.getProtectedRegion(coordinate, 'build'));
+
+    this._buildPreviewEntities.forEach((previewEntity, index) => {
+      const coordinate = coordinates[index];
+
+      previewEntity.setPosition(coordinate
+        ? { x: coordinate.x + 0.5, y: coordinate.y + 0.5, z: coordinate.z + 0.5 }
+        : BUILD_PREVIEW_HIDDEN_POSITION,
+      );
+      previewEntity.setTintColor(buildable ? { r: 255, g: 255, b: 255 } : { r: 255, g: 60, b: 60 });
+    });
+  }
+
+  /**
+   * The free coordinates the single block or selected prefab would be built at, the
+   * prefab snapped to the block grid and rotated to the closest direction the camera faces.
+   */
+  private _getBuildCoordinates(): Vector3Like[] {
+    if (!this.world) return [];
+
+    const { x, y, z } = this.position;
+    const facingDirection = this.player.camera.facingDirection;
+    const raycastHit = this.world.simulation.raycast(
+      { x, y: y + this.player.camera.offset.y, z },
+      facingDirection,
+      BUILD_RANGE,
+      { filterExcludeRigidBody: this.rawRigidBody, filterGroups: RAYCAST_FILTER_GROUPS }, // Looks through the ghost preview
+    );
+
+    if (!raycastHit?.hitBlock) return [];
+
+    // Build against the face that was looked at
+    const anchor = raycastHit.hitBlock.getNeighborGlobalCoordinateFromHitPoint(raycastHit.hitPoint);
+    const offsets = this._buildPrefabIndex !== undefined ? BUILD_PREFABS[this._buildPrefabIndex].blocks : [ { x: 0, y: 0, z: 0 } ];
+
+    const forward = Math.abs(facingDirection.x) > Math.abs(facingDirection.z)
+      ? { x: Math.sign(facingDirection.x), z: 0 }
+      : { x: 0, z: Math.sign(facingDirection.z) || 1 };
+    const right = { x: -forward.z, z: forward.x };
+
+    return offsets
+      .map(offset => ({
+        x: anchor.x + right.x * offset.x + forward.x * offset.z,
+        y: anchor.y + offset.y,
+        z: anchor.z + right.z * offset.x + forward.z * offset.z,
+      }))
+      .filter(coordinate => this.world!.chunkLattice.getBlockId(coordinate) === 0 && !this._isBlockInsidePlayer(coordinate));
+  }
+
+  private _isBlockInsidePlayer(coordinate: Vector3Like): boolean {
+    const blockAABB = {
+      min: coordinate,
+      max: { x: coordinate.x + 1, y: coordinate.y + 1, z: coordinate.z + 1 },
+    };
+
+    return this.world!.entityManager.getAllPlayerEntities().some(playerEntity => {
+      const { x, y, z } = playerEntity.position;
+
+      return AABB.intersects(blockAABB, {
+        min: { x: x - PLAYER_HALF_EXTENTS.x, y: y - PLAYER_HALF_EXTENTS.y, z: z - PLAYER_HALF_EXTENTS.z },
+        max: { x: x + PLAYER_HALF_EXTENTS.x, y: y + PLAYER_HALF_EXTENTS.y, z: z + PLAYER_HALF_EXTENTS.z },
+      });
+    });
   }
 
   private _handleReload(): void {
@@ -555,6 +967,100 @@ export default class GamePlayerEntity extends PlayerEntity {
     }
   }
 
+  private _handleSpectatorInput(input: any, deltaTimeMs: number): void {
+    if (input.ml) {
+      this._cycleSpectateTarget(1);
+      input.ml = false;
+    }
+
+    if (input.mr) {
+      this._cycleSpectateTarget(-1);
+      input.mr = false;
+    }
+
+    if (input.f) {
+      this._toggleFreeFly();
+      input.f = false;
+    }
+
+    if (this._freeFlyPosition) {
+      this._moveFreeFly(input, deltaTimeMs);
+    } else if (this._spectateTarget && !this._canSpectate(this._spectateTarget)) {
+      // The spectated player died or left, move on to the next one
+      this._cycleSpectateTarget(1);
+    }
+
+    // Spectators never move their own entity
+    SPECTATOR_MOVEMENT_KEYS.forEach(key => {
+      input[key] = false;
+    });
+  }
+
+  private _canSpectate(playerEntity: GamePlayerEntity): boolean {
+    return playerEntity !== this && playerEntity.isSpawned && !playerEntity.isDead && !playerEntity.isSpectating;
+  }
+
+  private _cycleSpectateTarget(direction: 1 | -1): void {
+    if (!this.world) return;
+
+    const players = this.world.entityManager.getAllPlayerEntities().filter(entity => {
+      return entity instanceof GamePlayerEntity && this._canSpectate(entity);
+    }) as GamePlayerEntity[];
+
+    if (!players.length) return;
+
+    const index = this._spectateTarget ? players.indexOf(this._spectateTarget) : -1;
+    this._spectatePlayer(players[(index + direction + players.length) % players.length]);
+  }
+
+  private _spectatePlayer(playerEntity: GamePlayerEntity): void {
+    this._spectateTarget = playerEntity;
+    this._freeFlyPosition = undefined;
+    this.focusCameraOnPlayer(playerEntity);
+    this._updatePlayerUISpectator();
+  }
+
+  private _toggleFreeFly(): void {
+    if (this._freeFlyPosition) {
+      this._freeFlyPosition = undefined;
+      this._cycleSpectateTarget(1);
+      this._updatePlayerUISpectator();
+      return;
+    }
+
+    // Start flying from wherever the camera currently is
+    const origin = this._spectateTarget?.position ?? this.position;
+
+    this._spectateTarget = undefined;
+    this._freeFlyPosition = { x: origin.x, y: origin.y + 2, z: origin.z };
+    this.player.camera.setMode(PlayerCameraMode.FIRST_PERSON);
+    this.player.camera.setAttachedToPosition(this._freeFlyPosition);
+    this._updatePlayerUISpectator();
+  }
+
+  private _moveFreeFly(input: any, deltaTimeMs: number): void {
+    if (!this._freeFlyPosition) return;
+
+    const forward = (input.w ? 1 : 0) - (input.s ? 1 : 0);
+    const strafe = (input.d ? 1 : 0) - (input.a ? 1 : 0);
+    const lift = (input.sp ? 1 : 0) - (input.sh ? 1 : 0);
+
+    if (!forward && !strafe && !lift) return;
+
+    // Fly where the camera faces, strafing along the horizontal axis perpendicular to it
+    const { facingDirection } = this.player.camera;
+    const horizontalLength = Math.hypot(facingDirection.x, facingDirection.z) || 1;
+    const distance = FREE_FLY_VELOCITY * deltaTimeMs / 1000;
+
+    this._freeFlyPosition = {
+      x: this._freeFlyPosition.x + (facingDirection.x * forward - facingDirection.z / horizontalLength * strafe) * distance,
+      y: this._freeFlyPosition.y + (facingDirection.y * forward + lift) * distance,
+      z: this._freeFlyPosition.z + (facingDirection.z * forward + facingDirection.x / horizontalLength * strafe) * distance,
+    };
+
+    this.player.camera.setAttachedToPosition(this._freeFlyPosition);
+  }
+
   private _handleInteract(): void {
     if (!this.world) return;
 
@@ -571,6 +1077,7 @@ export default class GamePlayerEntity extends PlayerEntity {
       {
         filterExcludeRigidBody: this.rawRigidBody,
         filterFlags: 8, // Rapier exclude sensors,
+        filterGroups: RAYCAST_FILTER_GROUPS,
       }
     );
 
@@ -580,6 +1087,10 @@ export default class GamePlayerEntity extends PlayerEntity {
       hitEntity.open();
     }
 
+    if (hitEntity instanceof FlagEntity) {
+      hitEntity.interact(this);
+    }
+
     if (hitEntity instanceof ItemEntity) {
       if (this._findInventorySlot() === 0) {
         this.world?.chatManager?.sendPlayerMessage(this.player, 'You cannot replace your pickaxe! Switch to a different item first to pick up this item.');
@@ -602,6 +1113,11 @@ export default class GamePlayerEntity extends PlayerEntity {
     return emptySlot !== -1 ? emptySlot : this._inventoryActiveSlotIndex;
   }
 
+  private _updateLatency(roundTripMs: number): void {
+    // Smoothed so a single slow round trip doesn't swing lag compensation
+    this._latencyMs = this._latencyMs ? Math.round(this._latencyMs * 0.8 + roundTripMs * 0.2) : roundTripMs;
+  }
+
   private _updatePlayerUIInventory(): void {
     if (!this.player.ui) return;
 
@@ -641,6 +1157,10 @@ export default class GamePlayerEntity extends PlayerEntity {
         type: 'ammo-indicator',
         show: false,
       });
+      this.player.ui.sendData({
+        type: 'crosshair-spread',
+        spread: 0,
+      });
     }
   }
 
@@ -652,6 +1172,13 @@ export default class GamePlayerEntity extends PlayerEntity {
     });
   }
 
+  private _updatePlayerUIMaterials(): void {
+    this.player.ui.sendData({
+      type: 'materials',
+      materials: this._materials,
+    });
+  }
+
   private _updatePlayerUIShield(): void {
     this.player.ui.sendData({
       type: 'shield',
@@ -678,6 +1205,15 @@ export default class GamePlayerEntity extends PlayerEntity {
     });
   }
 
+  private _updatePlayerUISpectator(): void {
+    this.player.ui.sendData({
+      type: 'spectator-update',
+      spectating: this._spectating,
+      target: this._spectateTarget?.player.username,
+      freeFly: !!this._freeFlyPosition,
+    });
+  }
+
   private _playDamageAudio(): void {
     this._damageAudio.setDetune(-200 + Math.random() * 800);
     this._damageAudio.play(this.world!, true);
@@ -695,12 +1231,38 @@ export default class GamePlayerEntity extends PlayerEntity {
     }, 2000);
   }
 
+  private _idleTicker(): void {
+    setTimeout(() => {
+      if (!this.isSpawned) return;
+
+      if (GameManager.instance.isGameActive && !this._dead && !this._spectating && Date.now() - this._lastInputAt >= IDLE_SPECTATE_TIMEOUT_MS) {
+        this.startSpectating(undefined, true);
+        this.world?.chatManager.sendPlayerMessage(this.player, 'You were moved to spectators for being idle. Type /spectate to rejoin.', 'FFFF00');
+      }
+
+      this._idleTicker();
+    }, IDLE_CHECK_INTERVAL_MS);
+  }
+
+  private _latencyTicker(): void {
+    setTimeout(() => {
+      if (!this.isSpawned) return;
+
+      this.player.ui.sendData({
+        type: 'ping',
+        sentAt: Date.now(),
+      });
+
+      this._latencyTicker();
+    }, LATENCY_PING_INTERVAL_MS);
+  }
+
   private _outOfWorldTicker(): void {
     setTimeout(() => {
       if (!this.isSpawned) return;
 
-      if (this.position.y < -100 && !this._dead) {
-        this.takeDamage(MAX_HEALTH + MAX_SHIELD, { x: 0, y: 0, z: -1 });
+      if (this.position.y < -100 && !this._dead && !this._spectating) {
+        this.takeDamage(MAX_HEALTH + MAX_SHIELD, { x: 0, y: 0, z: -1 }, undefined, { weaponName: 'Void' });
       }
 
       this._outOfWorldTicker();
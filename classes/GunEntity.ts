@@ -13,36 +13,79 @@ import ItemEntity from './ItemEntity';
 import PaintballProjectileEntity from './PaintballProjectileEntity';
 import type { ItemEntityOptions } from './ItemEntity';
 
-// --- Projectile Speed Constant ---
-const PROJECTILE_SPEED = 50; // Speed in meters per second for the projectile
-// --- End Projectile Speed Constant ---
+const AIRBORNE_SPREAD_PENALTY = 4;     // Degrees added to the spread while not on the ground.
+const BLOOM_DECAY_PER_SECOND = 6;      // Degrees of bloom recovered per second.
+const DEFAULT_BLOOM_PER_SHOT = 0.4;
+const DEFAULT_HEADSHOT_MULTIPLIER = 2;
+const DEFAULT_MAX_BLOOM = 3;
+const DEFAULT_PROJECTILE_SPEED = 50; // Speed in meters per second for the projectile
+const RUNNING_SPREAD_PENALTY = 2;      // Degrees added to the spread while running.
+const SCOPED_SPREAD_MULTIPLIER = 0.25;
+const WALKING_SPREAD_PENALTY = 0.5;    // Degrees added to the spread while walking.
 
 export type GunHand = 'left' | 'right' | 'both';
 
+export type GunPelletOffset = {
+  x: number;  // Horizontal spread from the aim direction.
+  y: number;  // Vertical spread from the aim direction.
+};
+
+export type GunProjectileOptions = {
+  shooter: GamePlayerEntity;
+  initialDamage: number;
+  headshotMultiplier: number;
+  gravityScale?: number;
+  weaponName?: string;
+};
+
+export type GunProjectileEntity = Entity & { initiate(velocity: Vector3Like): void };
+
+export type GunProjectileClass = new (options: GunProjectileOptions) => GunProjectileEntity;
+
 export type GunEntityOptions = {
   ammo: number;              // The amount of ammo in the clip.
+  bloomPerShot?: number;     // Degrees of spread each shot adds, recovering over time.
   damage: number;            // The damage of the gun.
   fireRate: number;          // Bullets shot per second.
+  headshotMultiplier?: number; // Damage multiplier for hits on a player's head.
   maxAmmo: number;           // The amount of ammo the clip can hold.
+  maxBloom?: number;         // The most degrees of spread sustained fire can add.
   totalAmmo: number;         // The amount of ammo remaining for this gun.
+  pellets?: GunPelletOffset[]; // A projectile is fired for each pellet per shot, a single centered pellet if unset.
+  pelletCount?: number;      // Centered pellets fired per shot when pellets is unset, use with spread.
+  projectileClass?: GunProjectileClass; // The projectile fired, paintballs if unset.
+  projectileGravityScale?: number; // How strongly gravity pulls projectiles down, 1 if unset.
+  projectileSpeed?: number;  // Meters per second.
   range: number;             // The max range bullets travel for raycast hits
   reloadAudioUri: string;    // The audio played when reloading
   reloadTimeMs: number;      // Seconds to reload.
   shootAudioUri: string;     // The audio played when shooting
   scopeZoom?: number;         // The zoom level when scoped in.
+  spread?: number;           // Degrees each pellet randomly deviates from its direction at rest, within a cone.
 } & ItemEntityOptions;
 
 export default abstract class GunEntity extends ItemEntity {
+  protected readonly bloomPerShot: number;
   protected readonly damage: number;
   protected readonly fireRate: number;
+  protected readonly headshotMultiplier: number;
   protected readonly maxAmmo: number;
+  protected readonly maxBloom: number;
+  protected readonly pellets: GunPelletOffset[];
+  protected readonly projectileClass: GunProjectileClass;
+  protected readonly projectileGravityScale: number;
+  protected readonly projectileSpeed: number;
   protected readonly range: number;
   protected readonly reloadTimeMs: number;
   protected readonly scopeZoom: number = 1;
+  protected readonly spread: number;
 
   protected ammo: number;
   protected totalAmmo: number;
+  private _bloom: number = 0;
+  private _bloomUpdatedAt: number = 0;
   private _lastFireTime: number = 0;
+  private _lastSentCrosshairSpread: number | undefined;
   private _muzzleFlashChildEntity: Entity | undefined;
   private _reloadAudio: Audio;
   private _reloading: boolean = false;
@@ -56,13 +99,21 @@ export default abstract class GunEntity extends ItemEntity {
     super(options);
 
     this.ammo = options.ammo;
+    this.bloomPerShot = options.bloomPerShot ?? DEFAULT_BLOOM_PER_SHOT;
     this.damage = options.damage;
     this.fireRate = options.fireRate;
+    this.headshotMultiplier = options.headshotMultiplier ?? DEFAULT_HEADSHOT_MULTIPLIER;
     this.maxAmmo = options.maxAmmo;
+    this.maxBloom = options.maxBloom ?? DEFAULT_MAX_BLOOM;
+    this.pellets = options.pellets ?? Array.from({ length: options.pelletCount ?? 1 }, () => ({ x: 0, y: 0 }));
+    this.projectileClass = options.projectileClass ?? PaintballProjectileEntity;
+    this.projectileGravityScale = options.projectileGravityScale ?? 1;
+    this.projectileSpeed = options.projectileSpeed ?? DEFAULT_PROJECTILE_SPEED;
     this.totalAmmo = options.totalAmmo;
     this.range = options.range;
     this.reloadTimeMs = options.reloadTimeMs;
     this.scopeZoom = options.scopeZoom ?? 1;
+    this.spread = options.spread ?? 0;
 
     this._reloadAudio = new Audio({
       attachedToEntity: this,
@@ -88,7 +139,8 @@ export default abstract class GunEntity extends ItemEntity {
     this.setPosition({ x: 0, y: 0, z: -0.2 });
     this.setRotation(Quaternion.fromEuler(-90, 0, 0));
     this._reloadAudio.play(this.world, true);
-
+    this._lastSentCrosshairSpread = undefined;
+    this.updateCrosshairSpreadUI();
   }
 
   public override unequip(): void {
@@ -128,18 +180,58 @@ export default abstract class GunEntity extends ItemEntity {
     this._performShootEffects(player);
     this._updateUI(player);
 
-    // --- Spawn Paintball Projectile --- 
-    const projectile = new PaintballProjectileEntity({
-      shooter: player,
-      initialDamage: this.damage, // Pass the gun's base damage
+    const spread = this.getSpread();
+
+    // --- Spawn Projectiles, one per pellet --- 
+    this.pellets.forEach(pellet => {
+      const pelletDirection = this._getSpreadDirection(this._getPelletDirection(direction, pellet), spread);
+      const projectile = new this.projectileClass({
+        shooter: player,
+        initialDamage: this.damage, // Pass the gun's base damage
+        headshotMultiplier: this.headshotMultiplier,
+        gravityScale: this.projectileGravityScale,
+        weaponName: this.name,
+      });
+      projectile.spawn(player.world!, origin); // Spawn at the calculated origin
+      projectile.initiate({ 
+        x: pelletDirection.x * this.projectileSpeed,
+        y: pelletDirection.y * this.projectileSpeed,
+        z: pelletDirection.z * this.projectileSpeed
+      });
     });
-    projectile.spawn(player.world, origin); // Spawn at the calculated origin
-    projectile.initiate({ 
-      x: direction.x * PROJECTILE_SPEED,
-      y: direction.y * PROJECTILE_SPEED,
-      z: direction.z * PROJECTILE_SPEED
+    // --- End Spawn Projectiles ---
+
+    this._bloom = Math.min(this.maxBloom, this._getBloom() + this.bloomPerShot);
+    this._bloomUpdatedAt = performance.now();
+    this.updateCrosshairSpreadUI();
+  }
+
+  /**
+   * The current spread cone in degrees, from the base spread, bloom from
+   * sustained fire and how the holder is moving, tightened while scoped.
+   */
+  public getSpread(): number {
+    const player = this.parent as GamePlayerEntity | undefined;
+    const spread = this.spread + this._getBloom() + (player ? this._getMovementSpreadPenalty(player) : 0);
+    const scoped = !!player && this.scopeZoom !== 1 && player.player.camera.zoom !== 1;
+
+    return scoped ? spread * SCOPED_SPREAD_MULTIPLIER : spread;
+  }
+
+  /**
+   * Sends the spread to the HUD reticle, only when it visibly changed.
+   */
+  public updateCrosshairSpreadUI(): void {
+    if (!this.parent) return;
+
+    const spread = Math.round(this.getSpread() * 10) / 10;
+    if (spread === this._lastSentCrosshairSpread) return;
+
+    this._lastSentCrosshairSpread = spread;
+    (this.parent as GamePlayerEntity).player.ui.sendData({
+      type: 'crosshair-spread',
+      spread,
     });
-    // --- End Spawn Paintball Projectile ---
   }
 
   public zoomScope(reset: boolean = false): void {
@@ -153,6 +245,7 @@ export default abstract class GunEntity extends ItemEntity {
       type: 'scope-zoom',
       zoom,
     });
+    this.updateCrosshairSpreadUI();
   }
 
   protected getShootOriginDirection(): { origin: Vector3Like, direction: Vector3Like } {
@@ -214,6 +307,70 @@ export default abstract class GunEntity extends ItemEntity {
     this.updateAmmoIndicatorUI();
   }
 
+  private _getPelletDirection(direction: Vector3Like, pellet: GunPelletOffset): Vector3Like {
+    if (!pellet.x && !pellet.y) return direction;
+
+    // Apply the spread relative to the aim direction
+    const spreadDirection = {
+      x: direction.x + (direction.z * pellet.x), // Add horizontal spread
+      y: direction.y + pellet.y,                 // Add vertical spread
+      z: direction.z - (direction.x * pellet.x)  // Maintain direction magnitude
+    };
+
+    // Normalize the spread direction to maintain consistent range
+    const magnitude = Math.sqrt(
+      spreadDirection.x * spreadDirection.x +
+      spreadDirection.y * spreadDirection.y +
+      spreadDirection.z * spreadDirection.z
+    );
+
+    return {
+      x: spreadDirection.x / magnitude,
+      y: spreadDirection.y / magnitude,
+      z: spreadDirection.z / magnitude
+    };
+  }
+
+  private _getBloom(): number {
+    const elapsedSeconds = (performance.now() - this._bloomUpdatedAt) / 1000;
+
+    return Math.max(0, this._bloom - elapsedSeconds * BLOOM_DECAY_PER_SECOND);
+  }
+
+  private _getMovementSpreadPenalty(player: GamePlayerEntity): number {
+    if (!player.playerController.isGrounded) return AIRBORNE_SPREAD_PENALTY;
+
+    const { input } = player.player;
+    if (!input.w && !input.a && !input.s && !input.d) return 0;
+
+    return input.sh ? RUNNING_SPREAD_PENALTY : WALKING_SPREAD_PENALTY;
+  }
+
+  /**
+   * Randomly deviates a direction within a spread cone.
+   */
+  private _getSpreadDirection(direction: Vector3Like, spread: number): Vector3Like {
+    if (!spread) return direction;
+
+    const forward = Vector3.fromVector3Like(direction);
+
+    // Any axis not parallel to the direction works to build the cone's basis
+    const axis = Math.abs(forward.y) < 0.99 ? new Vector3(0, 1, 0) : new Vector3(1, 0, 0);
+    const right = Vector3.fromVector3Like(forward).cross(axis).normalize();
+    const up = Vector3.fromVector3Like(right).cross(forward).normalize();
+
+    // Square root keeps deviations evenly spread over the cone instead of bunched in the center
+    const angle = Math.sqrt(Math.random()) * spread * Math.PI / 180;
+    const roll = Math.random() * Math.PI * 2;
+    const sideways = Math.sin(angle);
+
+    return {
+      x: forward.x * Math.cos(angle) + (right.x * Math.cos(roll) + up.x * Math.sin(roll)) * sideways,
+      y: forward.y * Math.cos(angle) + (right.y * Math.cos(roll) + up.y * Math.sin(roll)) * sideways,
+      z: forward.z * Math.cos(angle) + (right.z * Math.cos(roll) + up.z * Math.sin(roll)) * sideways,
+    };
+  }
+
   private _startReload(): void {
     this.ammo = 0;
     this._reloading = true;
@@ -16,6 +16,7 @@ import {
 
 import GamePlayerEntity from './GamePlayerEntity';
 import { ITEM_DESPAWN_TIME_MS } from '../gameConfig';
+import type { LootRarity } from './LootManager';
 
 const INVENTORIED_POSITION = { x: 0, y: -300, z: 0 };
 
@@ -35,6 +36,7 @@ export type ItemEntityOptions = {
 export default class ItemEntity extends Entity {
   public readonly consumable: boolean;
   public quantity: number;
+  public rarity: LootRarity | undefined; // Set when dropped from a loot table, colors the item label.
   public readonly heldHand: HeldHand;
   public readonly iconImageUri: string;
   protected readonly consumeAudioUri: string | undefined;
@@ -196,7 +198,7 @@ export default class ItemEntity extends Entity {
     return new SceneUI({
       attachedToEntity: this,
       templateId: 'item-label',
-      state: { name: this.name, quantity: this.getQuantity() },
+      state: { name: this.name, quantity: this.getQuantity(), rarity: this.rarity },
       viewDistance: 8,
       offset: { x: 0, y: 1, z: 0 },
     });
@@ -206,7 +208,7 @@ export default class ItemEntity extends Entity {
     if (!this.world) return;
 
     if (!this.parent) {
-      this._labelSceneUI.setState({ quantity: this.getQuantity() });
+      this._labelSceneUI.setState({ quantity: this.getQuantity(), rarity: this.rarity });
       this._labelSceneUI.load(this.world);
     } else {
       this._labelSceneUI.unload();
@@ -1,63 +1,46 @@
+import type ItemEntity from './ItemEntity';
+
+export type ItemRegistration = {
+  id: string;              // The id used by chests, item spawns and loot tables.
+  name: string;            // The display name of the item.
+  iconImageUri: string;    // The image uri of the item icon.
+  create: () => ItemEntity | Promise<ItemEntity>; // Async so item classes can be imported lazily.
+};
+
+/**
+ * Creates items by id. Built-in items are registered on startup, see
+ * builtInItems.ts, and extensions can register new items at runtime.
+ */
 export default class ItemFactory {
-  public static async createItem(itemId: string) {
-    let itemModule
-
-    // We do imports here to avoid circular dependencies
-    // We should really just refactor import patterns,
-    // but this is a quick fix for now.
-    switch(itemId) {
-      case 'ak47':
-        itemModule = await import('./weapons/AK47Entity');
-        break;
-      case 'auto-shotgun':
-        itemModule = await import('./weapons/AutoShotgunEntity');
-        break;
-      case 'auto-sniper':
-        itemModule = await import('./weapons/AutoSniperEntity');
-        break;
-      case 'bolt-action-sniper':
-        itemModule = await import('./weapons/BoltActionSniperEntity');
-        break;
-      case 'gravity-potion':
-        itemModule = await import('./items/GravityPotionEntity');
-        break;
-      case 'light-machine-gun':
-        itemModule = await import('./weapons/LightMachineGunEntity');
-        break;
-      case 'medpack':
-        itemModule = await import('./items/MedPackEntity');
-        break;
-      case 'mining-drill':
-        itemModule = await import('./weapons/MiningDrillEntity');
-        break;
-      case 'pistol':
-        itemModule = await import('./weapons/PistolEntity');
-        break;
-      case 'revolver':
-        itemModule = await import('./weapons/RevolverEntity');
-        break;
-      case 'rocket-launcher':
-        itemModule = await import('./weapons/RocketLauncherEntity');
-        break;
-        case 'submachine-gun':
-        itemModule = await import('./weapons/SubmachineGunEntity');
-        break;
-      case 'shotgun':
-        itemModule = await import('./weapons/ShotgunEntity');
-        break;
-      case 'shield-potion':
-        itemModule = await import('./items/ShieldPotionEntity');
-        break;
-      case 'custom-gun':
-        itemModule = await import('./weapons/CustomGunEntity');
-        break;
-      default:
-        throw new Error(`Unknown chest item id: ${itemId}`);
+  private static readonly _registrations: Map<string, ItemRegistration> = new Map();
+
+  public static registerItem(registration: ItemRegistration): void {
+    if (this._registrations.has(registration.id)) {
+      throw new Error(`ItemFactory.registerItem: Item id ${registration.id} is already registered`);
     }
 
-    const itemClass = itemModule.default;
-    const item = new itemClass();
+    this._registrations.set(registration.id, registration);
+  }
+
+  public static getItemIds(): string[] {
+    return Array.from(this._registrations.keys());
+  }
+
+  public static getItemRegistration(itemId: string): ItemRegistration | undefined {
+    return this._registrations.get(itemId);
+  }
+
+  public static isRegistered(itemId: string): boolean {
+    return this._registrations.has(itemId);
+  }
+
+  public static async createItem(itemId: string): Promise<ItemEntity> {
+    const registration = this._registrations.get(itemId);
+
+    if (!registration) {
+      throw new Error(`Unknown item id: ${itemId}`);
+    }
 
-    return item;
+    return registration.create();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,234 @@
+import { LOOT_TABLES } from '../gameConfig';
+import ItemFactory from './ItemFactory';
+import type ItemEntity from './ItemEntity';
+
+export const LOOT_RARITIES = [ 'common', 'uncommon', 'rare', 'epic', 'legendary' ] as const;
+
+export type LootRarity = typeof LOOT_RARITIES[number];
+
+export type LootQuantityRange = { min: number, max: number };
+
+export type LootTableEntry = {
+  itemId?: string;               // The item dropped, or
+  tableId?: string;              // a nested table one entry is picked from instead.
+  pickWeight: number;
+  rarity?: LootRarity;           // Defaults to common, nested tables use the rarity of the entry picked.
+  quantity?: LootQuantityRange;  // Overrides the quantity of consumable items.
+};
+
+export type LootTableDefinition = {
+  entries: LootTableEntry[];
+  guaranteed?: LootTableEntry[]; // Dropped on every roll of the table, on top of the picked entries.
+  rolls?: LootQuantityRange;     // How many entries are picked, defaults to 1.
+  pity?: {
+    rarity: LootRarity;
+    rolls: number;               // After this many rolls in a round without the rarity or better, the next roll guarantees it.
+  };
+};
+
+export type LootDrop = {
+  itemId: string;
+  rarity: LootRarity;
+  quantity?: number;
+};
+
+/**
+ * Weighted loot tables shared by chests and world item spawns. Tables are
+ * loaded from LOOT_TABLES and extensions can register more at runtime.
+ */
+export default class LootManager {
+  public static instance: LootManager = new LootManager();
+
+  private _rollsWithoutPity: Map<string, number> = new Map();
+  private _tables: Map<string, LootTableDefinition> = new Map(Object.entries(LOOT_TABLES));
+
+  private constructor() {}
+
+  public registerTable(tableId: string, definition: LootTableDefinition): void {
+    if (this._tables.has(tableId)) {
+      throw new Error(`LootManager.registerTable: Loot table ${tableId} is already registered`);
+    }
+
+    this._tables.set(tableId, definition);
+  }
+
+  public getTableIds(): string[] {
+    return Array.from(this._tables.keys());
+  }
+
+  /**
+   * Pity counters only carry over within a round.
+   */
+  public resetPity(): void {
+    this._rollsWithoutPity.clear();
+  }
+
+  public roll(tableId: string): LootDrop[] {
+    const table = this._tables.get(tableId);
+
+    if (!table) {
+      throw new Error(`Unknown loot table id: ${tableId}`);
+    }
+
+    const drops: LootDrop[] = [];
+
+    table.guaranteed?.forEach(entry => {
+      const drop = this._resolveEntry(entry);
+      if (drop) drops.push(drop);
+    });
+
+    const rolls = this._randomInRange(table.rolls ?? { min: 1, max: 1 });
+    const pityReached = !!table.pity && (this._rollsWithoutPity.get(tableId) ?? 0) >= table.pity.rolls;
+
+    for (let i = 0; i < rolls; i++) {
+      // Only the first pick is forced when pity kicks in
+      const entry = this._pickEntry(table.entries, pityReached && i === 0 ? table.pity!.rarity : undefined);
+      const drop = entry && this._resolveEntry(entry, pityReached && i === 0 ? table.pity!.rarity : undefined);
+      if (drop) drops.push(drop);
+    }
+
+    if (table.pity) {
+      const gotPityRarity = drops.some(drop => this._compareRarity(drop.rarity, table.pity!.rarity) >= 0);
+      this._rollsWithoutPity.set(tableId, gotPityRarity ? 0 : (this._rollsWithoutPity.get(tableId) ?? 0) + 1);
+    }
+
+    return drops;
+  }
+
+  /**
+   * Rolls a table and creates the dropped items, ready to be spawned.
+   */
+  public async createItems(tableId: string): Promise<ItemEntity[]> {
+    return Promise.all(this.roll(tableId).map(async drop => {
+      const item = await ItemFactory.createItem(drop.itemId);
+
+      item.rarity = drop.rarity;
+
+      if (drop.quantity !== undefined) {
+        item.quantity = drop.quantity;
+      }
+
+      return item;
+    }));
+  }
+
+  /**
+   * Checks every table references registered items and tables, throwing
+   * with all problems found so bad loot config fails on startup.
+   */
+  public validate(): void {
+    const errors: string[] = [];
+
+    this._tables.forEach((table, tableId) => {
+      if (!table.entries.length) {
+        errors.push(`${tableId}: must have at least one entry`);
+      }
+
+      [ ...table.entries, ...(table.guaranteed ?? []) ].forEach((entry, index) => {
+        const label = `${tableId} entry ${entry.itemId ?? entry.tableId ?? `#${index}`}`;
+
+        if (!!entry.itemId === !!entry.tableId) {
+          errors.push(`${label}: must have either an itemId or a tableId`);
+        } else if (entry.itemId && !ItemFactory.isRegistered(entry.itemId)) {
+          errors.push(`${label}: item is not registered with the ItemFactory`);
+        } else if (entry.tableId && !this._tables.has(entry.tableId)) {
+          errors.push(`${label}: loot table does not exist`);
+        }
+
+        if (!(entry.pickWeight > 0)) {
+          errors.push(`${label}: pickWeight must be a positive number`);
+        }
+
+        if (entry.quantity && !this._isValidRange(entry.quantity)) {
+          errors.push(`${label}: quantity must be a range with 1 <= min <= max`);
+        }
+      });
+
+      if (table.rolls && !this._isValidRange(table.rolls)) {
+        errors.push(`${tableId}: rolls must be a range with 1 <= min <= max`);
+      }
+
+      if (table.pity && !(table.pity.rolls >= 1)) {
+        errors.push(`${tableId}: pity rolls must be at least 1`);
+      }
+
+      if (this._isNestedIn(tableId, tableId)) {
+        errors.push(`${tableId}: nested tables must not include the table itself`);
+      }
+    });
+
+    if (errors.length) {
+      throw new Error(`LootManager: loot tables are invalid\n- ${errors.join('\n- ')}`);
+    }
+
+    console.log(`>>> [LootManager] validate: Validated ${this._tables.size} loot tables`);
+  }
+
+  private _compareRarity(a: LootRarity, b: LootRarity): number {
+    return LOOT_RARITIES.indexOf(a) - LOOT_RARITIES.indexOf(b);
+  }
+
+  private _getBestRarity(entry: LootTableEntry, visitedTableIds: Set<string> = new Set()): LootRarity {
+    if (!entry.tableId) return entry.rarity ?? 'common';
+    if (visitedTableIds.has(entry.tableId)) return 'common';
+
+    visitedTableIds.add(entry.tableId);
+
+    return (this._tables.get(entry.tableId)?.entries ?? []).reduce<LootRarity>((best, nestedEntry) => {
+      const rarity = this._getBestRarity(nestedEntry, visitedTableIds);
+      return this._compareRarity(rarity, best) > 0 ? rarity : best;
+    }, 'common');
+  }
+
+  private _isNestedIn(tableId: string, nestedTableId: string, visitedTableIds: Set<string> = new Set()): boolean {
+    const table = this._tables.get(nestedTableId);
+    if (!table || visitedTableIds.has(nestedTableId)) return false;
+
+    visitedTableIds.add(nestedTableId);
+
+    return [ ...table.entries, ...(table.guaranteed ?? []) ].some(entry => (
+      entry.tableId === tableId || (!!entry.tableId && this._isNestedIn(tableId, entry.tableId, visitedTableIds))
+    ));
+  }
+
+  private _isValidRange(range: LootQuantityRange): boolean {
+    return Number.isInteger(range.min) && Number.isInteger(range.max) && range.min >= 1 && range.min <= range.max;
+  }
+
+  private _pickEntry(entries: LootTableEntry[], minimumRarity?: LootRarity): LootTableEntry | undefined {
+    const candidates = minimumRarity
+      ? entries.filter(entry => this._compareRarity(this._getBestRarity(entry), minimumRarity) >= 0)
+      : entries;
+
+    // Fall back to the full table if nothing can satisfy the pity rarity
+    const pickFrom = candidates.length ? candidates : entries;
+    const totalWeight = pickFrom.reduce((sum, entry) => sum + entry.pickWeight, 0);
+    let random = Math.random() * totalWeight;
+
+    for (const entry of pickFrom) {
+      random -= entry.pickWeight;
+      if (random <= 0) return entry;
+    }
+
+    return pickFrom[pickFrom.length - 1];
+  }
+
+  private _randomInRange(range: LootQuantityRange): number {
+    return range.min + Math.floor(Math.random() * (range.max - range.min + 1));
+  }
+
+  private _resolveEntry(entry: LootTableEntry, minimumRarity?: LootRarity): LootDrop | undefined {
+    if (entry.tableId) {
+      const nestedEntry = this._pickEntry(this._tables.get(entry.tableId)?.entries ?? [], minimumRarity);
+      return nestedEntry && this._resolveEntry(nestedEntry, minimumRarity);
+    }
+
+    if (!entry.itemId) return;
+
+    return {
+      itemId: entry.itemId,
+      rarity: entry.rarity ?? 'common',
+      quantity: entry.quantity && this._randomInRange(entry.quantity),
+    };
+  }
+}
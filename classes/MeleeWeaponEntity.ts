@@ -7,6 +7,7 @@ import {
 } from 'hytopia';
 
 import GamePlayerEntity from './GamePlayerEntity';
+import { RAYCAST_FILTER_GROUPS } from '../gameConfig';
 import ItemEntity from './ItemEntity';
 import TerrainDamageManager from './TerrainDamageManager';
 import type { ItemEntityOptions } from './ItemEntity';
@@ -99,13 +100,14 @@ export default abstract class MeleeWeaponEntity extends ItemEntity {
     const { world } = this.parent;
     const raycastHit = world.simulation.raycast(origin, direction, length, {
       filterExcludeRigidBody: this.parent.rawRigidBody,
+      filterGroups: RAYCAST_FILTER_GROUPS,
     });
 
     if (raycastHit?.hitBlock) {
-      const brokeBlock = TerrainDamageManager.instance.damageBlock(world, raycastHit.hitBlock, this.damage);
+      const player = this.parent as GamePlayerEntity;
+      const brokeBlock = TerrainDamageManager.instance.damageBlock(world, raycastHit.hitBlock, this.damage, player.player);
 
       if (this.minesMaterials && brokeBlock) {
-        const player = this.parent as GamePlayerEntity;
         const blockId = raycastHit.hitBlock.blockType.id;
         const materialCount = TerrainDamageManager.getBreakMaterialCount(blockId);
 
@@ -0,0 +1,106 @@
+import type { Vector3Like, World } from 'hytopia';
+
+import TeamManager from './TeamManager';
+import type GamePlayerEntity from './GamePlayerEntity';
+
+export type BlockFace = 'x+' | 'x-' | 'y+' | 'y-' | 'z+' | 'z-';
+
+export type PaintedFace = {
+  coordinate: Vector3Like;
+  face: BlockFace;
+  username: string;
+  teamId?: string;     // The painter's team at the time, for team based modes.
+  paintedAt: number;
+};
+
+/**
+ * Tracks which player and team last painted each block face during a round.
+ * Every face is one square meter, so painted surface area is the face count.
+ */
+export default class PaintCoverageManager {
+  public static instance: PaintCoverageManager = new PaintCoverageManager();
+
+  private _paintedFaces: Map<string, PaintedFace> = new Map();
+
+  private constructor() {}
+
+  public get paintedFaceCount(): number { return this._paintedFaces.size; }
+
+  /**
+   * Records a paint hit against the block surface at the contact point, painting
+   * over any previous owner. Returns the key of the block face painted.
+   */
+  public recordPaint(contactPoint: Vector3Like, normal: Vector3Like, painter: GamePlayerEntity): string {
+    const face = this._getFace(normal);
+
+    // Step slightly into the surface so the contact point resolves to the block that was hit
+    const coordinate = {
+      x: Math.floor(contactPoint.x - normal.x * 0.01),
+      y: Math.floor(contactPoint.y - normal.y * 0.01),
+      z: Math.floor(contactPoint.z - normal.z * 0.01),
+    };
+
+    const username = painter.player.username;
+    const faceKey = `${coordinate.x},${coordinate.y},${coordinate.z},${face}`;
+
+    this._paintedFaces.set(faceKey, {
+      coordinate,
+      face,
+      username,
+      teamId: TeamManager.instance.getPlayerTeam(username)?.id,
+      paintedAt: Date.now(),
+    });
+
+    return faceKey;
+  }
+
+  /**
+   * Painted faces per team, ignoring faces whose block has since been broken.
+   */
+  public getTeamCoverage(world: World): Record<string, number> {
+    const coverage: Record<string, number> = Object.fromEntries(TeamManager.instance.teams.map(team => [ team.id, 0 ]));
+
+    this._getStandingFaces(world).forEach(({ teamId }) => {
+      if (teamId) {
+        coverage[teamId] = (coverage[teamId] ?? 0) + 1;
+      }
+    });
+
+    return coverage;
+  }
+
+  /**
+   * Painted faces per player, ignoring faces whose block has since been broken.
+   */
+  public getPlayerCoverage(world: World): Record<string, number> {
+    const coverage: Record<string, number> = {};
+
+    this._getStandingFaces(world).forEach(({ username }) => {
+      coverage[username] = (coverage[username] ?? 0) + 1;
+    });
+
+    return coverage;
+  }
+
+  /**
+   * Coverage only lasts for a round.
+   */
+  public reset(): void {
+    this._paintedFaces.clear();
+  }
+
+  private _getFace(normal: Vector3Like): BlockFace {
+    const absX = Math.abs(normal.x);
+    const absY = Math.abs(normal.y);
+    const absZ = Math.abs(normal.z);
+
+    if (absY >= absX && absY >= absZ) return normal.y >= 0 ? 'y+' : 'y-';
+    if (absX >= absZ) return normal.x >= 0 ? 'x+' : 'x-';
+
+    return normal.z >= 0 ? 'z+' : 'z-';
+  }
+
+  private _getStandingFaces(world: World): PaintedFace[] {
+    return Array.from(this._paintedFaces.values()).filter(({ coordinate }) => !!world.chunkLattice.getBlockId(coordinate));
+  }
+}
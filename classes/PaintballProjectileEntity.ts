@@ -15,6 +15,12 @@ import {
   CollisionGroup
 } from 'hytopia';
 import GamePlayerEntity from './GamePlayerEntity'; // Assuming GamePlayerEntity is in the same directory
+import AABB from './AABB';
+import PaintCoverageManager from './PaintCoverageManager';
+import SplatterManager from './SplatterManager';
+import TeamManager from './TeamManager';
+import { LAG_COMPENSATION_MAX_REWIND_MS } from '../gameConfig';
+import type { GunProjectileOptions } from './GunEntity';
 
 // --- Damage Drop-off Constants (copied from GunEntity) ---
 const FULL_DAMAGE_RANGE = 15; // Max distance (meters) for full damage
@@ -26,11 +32,7 @@ const PROJECTILE_SPEED = 50; // Adjust as needed (meters per second)
 const PROJECTILE_LIFETIME_MS = 3000; // Projectile self-destructs after 3 seconds if it hits nothing
 
 // Interface for options specific to our projectile
-interface PaintballProjectileEntityOptions extends Partial<EntityOptions> {
-  shooter: GamePlayerEntity;
-  initialDamage: number;
-  // Remove initialVelocity as it's set via initiate()
-}
+type PaintballProjectileEntityOptions = Partial<EntityOptions> & GunProjectileOptions; // Velocity is set via initiate()
 
 // // Define a type for the collision event payload we expect
 // // This helps ensure we get the collider handles if available
@@ -40,7 +42,10 @@ interface PaintballProjectileEntityOptions extends Partial<EntityOptions> {
 export default class PaintballProjectileEntity extends Entity {
   private shooter: GamePlayerEntity;
   private initialDamage: number;
+  private headshotMultiplier: number;
   private lifeTimeout: NodeJS.Timeout | undefined;
+  private lastPosition: Vector3Like | undefined;
+  private rewindMs: number;
 
   constructor(options: PaintballProjectileEntityOptions) {
     const projectileOptions: EntityOptions = {
@@ -54,7 +59,7 @@ export default class PaintballProjectileEntity extends Entity {
         additionalMass: 0.1, // Give it a small mass
         linearDamping: 0.05, // Slight air resistance
         angularDamping: 0.1,
-        gravityScale: 1.0, // Ensure gravity affects it
+        gravityScale: options.gravityScale ?? 1.0, // Ensure gravity affects it, unless the gun says otherwise
         colliders: [
           {
             shape: ColliderShape.BALL,
@@ -63,7 +68,7 @@ export default class PaintballProjectileEntity extends Entity {
             // Explicitly define collision groups
             collisionGroups: {
               belongsTo: [ CollisionGroup.ENTITY ], // Belongs to entity group
-              collidesWith: [ CollisionGroup.BLOCK, CollisionGroup.ENTITY ] // Should collide with Blocks and other Entities
+              collidesWith: [ CollisionGroup.BLOCK, CollisionGroup.ENTITY, CollisionGroup.ENTITY_SENSOR ] // Should collide with Blocks, other Entities and player head sensors
             }
           },
         ],
@@ -76,10 +81,15 @@ export default class PaintballProjectileEntity extends Entity {
 
     this.shooter = options.shooter;
     this.initialDamage = options.initialDamage;
+    this.headshotMultiplier = options.headshotMultiplier;
+    // Targets are rewound by the shooter's one way latency, half the measured round trip,
+    // so hits match where they were on the shooter's screen when firing
+    this.rewindMs = Math.min(options.shooter.latencyMs / 2, LAG_COMPENSATION_MAX_REWIND_MS);
 
     // Set up specific collision handlers
     this.on(EntityEvent.ENTITY_COLLISION, this._handleEntityCollision);
     this.on(EntityEvent.BLOCK_COLLISION, this._handleBlockCollision);
+    this.on(EntityEvent.TICK, this._handleTick);
   }
 
   /**
@@ -88,6 +98,8 @@ export default class PaintballProjectileEntity extends Entity {
   public override spawn(world: World, position: Vector3Like, rotation?: Quaternion): void {
     super.spawn(world, position, rotation);
 
+    this.lastPosition = { x: position.x, y: position.y, z: position.z };
+
     // Clear any previous lifetime timer
     if (this.lifeTimeout) {
       clearTimeout(this.lifeTimeout);
@@ -125,7 +137,7 @@ export default class PaintballProjectileEntity extends Entity {
     );
 
     // Destructure properties from the payload
-    const { otherEntity, started } = payload;
+    const { otherEntity, started, colliderHandleA, colliderHandleB } = payload;
 
     // We only care about the initial impact
     if (!started || !this.isSpawned) {
@@ -137,17 +149,75 @@ export default class PaintballProjectileEntity extends Entity {
     let hitDirection: Vector3Like | undefined = undefined;
 
     // --- Entity Collision Logic ---
-    // Ignore collision with the shooter or other projectiles from the same shooter (optional)
-    if (otherEntity === this.shooter || otherEntity instanceof PaintballProjectileEntity) {
+    // Ignore collision with the shooter, spectators or other projectiles from the same shooter (optional)
+    if (otherEntity === this.shooter || otherEntity instanceof PaintballProjectileEntity || (otherEntity instanceof GamePlayerEntity && otherEntity.isSpectating)) {
         console.log(`>>> _handleEntityCollision ignoring collision with shooter or another projectile.`);
        return;
     }
+
+    // Lag compensated shots only hit players against their rewound hitboxes, see _handleTick
+    if (otherEntity instanceof GamePlayerEntity && this.rewindMs) {
+      return;
+    }
     hitEntity = otherEntity;
     // Calculate hit direction (vector from hit entity to projectile)
     const projectilePosVec3 = Vector3.fromVector3Like(this.position);
     const hitEntityPosVec3 = Vector3.fromVector3Like(hitEntity.position);
     hitDirection = projectilePosVec3.subtract(hitEntityPosVec3).normalize();
 
+    // Hitting the head sensor collider instead of the body is a headshot
+    const headshot = hitEntity instanceof GamePlayerEntity &&
+      [ colliderHandleA, colliderHandleB ].some(handle => handle !== undefined && (hitEntity as GamePlayerEntity).isHeadshotCollider(handle));
+
+    if (hitEntity instanceof GamePlayerEntity) {
+      this._applyHit(hitEntity, hitDirection, headshot);
+    }
+    // --- End Entity Collision Logic ---
+
+    // Despawn the projectile on *any* collision it handles
+    console.log(`>>> Despawning projectile after ENTITY collision.`);
+    this.despawn();
+  }
+
+  /**
+   * Lag compensation: checks the path travelled this tick against where
+   * players were when the shooter fired, as seen on the shooter's screen.
+   * Physics collisions with players are ignored for these shots, and only
+   * handle hits against current positions when the shooter has no latency.
+   */
+  private _handleTick = (): void => {
+    if (!this.isSpawned || !this.world || !this.lastPosition) return;
+
+    const from = this.lastPosition;
+    const to = { x: this.position.x, y: this.position.y, z: this.position.z };
+    this.lastPosition = to;
+
+    if (!this.rewindMs) return;
+
+    const rewoundTimestamp = Date.now() - this.rewindMs;
+
+    for (const entity of this.world.entityManager.getAllPlayerEntities()) {
+      if (!(entity instanceof GamePlayerEntity) || entity === this.shooter || entity.isDead || entity.isSpectating) continue;
+
+      const hitboxes = entity.getHitboxesAt(rewoundTimestamp);
+      if (!hitboxes) continue;
+
+      const headshot = AABB.intersectsSegment(hitboxes.head, from, to);
+      if (!headshot && !AABB.intersectsSegment(hitboxes.body, from, to)) continue;
+
+      console.log(`>>> _handleTick: Lag compensated hit on ${entity.player.username} rewound ${this.rewindMs}ms`);
+
+      const hitDirection = Vector3.fromVector3Like(from).subtract(Vector3.fromVector3Like(to)).normalize();
+      this._applyHit(entity, hitDirection, headshot);
+      this.despawn();
+      return;
+    }
+  }
+
+  /**
+   * Deals the shot's damage after range drop-off and headshot multipliers.
+   */
+  private _applyHit(hitEntity: GamePlayerEntity, hitDirection: Vector3Like, headshot: boolean): void {
     // --- Calculate Damage Drop-off ---
     const shooterPosVec3 = Vector3.fromVector3Like(this.shooter.position);
     const impactPosVec3 = Vector3.fromVector3Like(this.position);
@@ -168,20 +238,20 @@ export default class PaintballProjectileEntity extends Entity {
         damageMultiplier = 1.0 - (distanceIntoDropoff / rangeSpan) * (1.0 - MIN_DAMAGE_MULTIPLIER);
       }
     }
-    const finalDamage = Math.round(this.initialDamage * damageMultiplier);
     // --- End Calculate Damage Drop-off ---
 
-    // Apply damage if we hit a valid player entity and damage is > 0
-    if (hitEntity instanceof GamePlayerEntity && !hitEntity.isDead && finalDamage > 0) {
-        console.log(`Projectile attempting to deal ${finalDamage} damage to ${hitEntity.name}`);
-        this.shooter.dealtDamage(finalDamage); // Notify shooter
-        hitEntity.takeDamage(finalDamage, hitDirection || { x: 0, y: 0, z: -1 }, this.shooter);
+    if (headshot) {
+      damageMultiplier *= this.headshotMultiplier;
     }
-    // --- End Entity Collision Logic ---
 
-    // Despawn the projectile on *any* collision it handles
-    console.log(`>>> Despawning projectile after ENTITY collision.`);
-    this.despawn();
+    const finalDamage = Math.round(this.initialDamage * damageMultiplier);
+
+    // Apply damage if we hit a valid player entity and damage is > 0
+    if (!hitEntity.isDead && finalDamage > 0) {
+        console.log(`Projectile attempting to deal ${finalDamage} damage to ${hitEntity.name}${headshot ? ' (headshot)' : ''}`);
+        this.shooter.dealtDamage(finalDamage, headshot); // Notify shooter
+        hitEntity.takeDamage(finalDamage, hitDirection, this.shooter, { headshot });
+    }
   }
 
   /**
@@ -228,6 +298,9 @@ export default class PaintballProjectileEntity extends Entity {
           console.log(`Projectile hit block at contact point: ${JSON.stringify(contactPoint)}`);
           console.log(`Collision normal: ${JSON.stringify(contactNormal)}`);
 
+          // Splatters fade, but the painted face still counts towards coverage
+          const faceKey = PaintCoverageManager.instance.recordPaint(contactPoint, contactNormal, this.shooter);
+
           // --- Calculate Offset Position ---
           const offsetDistance = 0.02; // Reset to small offset distance
           // Manual scaling for offset vector
@@ -312,30 +385,11 @@ export default class PaintballProjectileEntity extends Entity {
           }
           // --- End Calculate Rotation ---
 
-          // Create a splatter entity using the custom model
-          const splatter = new Entity({
-            modelUri: 'models/environment/paintsplatter.gltf',
-            modelScale: 0.5, // Increased scale
-            rigidBodyOptions: {
-              type: RigidBodyType.KINEMATIC_POSITION,
-            }
-          });
-
-          console.log(`>>> Spawning splatter MODEL at ${JSON.stringify(spawnPosition)} WITH rotation ${JSON.stringify(rotation)}`);
-          splatter.spawn(this.world, spawnPosition, rotation);
-          console.log(`>>> Splatter entity SPAWNED successfully.`);
+          // Paint takes the shooter's team color in team modes
+          const shooterTeam = TeamManager.instance.getPlayerTeam(this.shooter.player.username);
 
-          splatter.setCollisionGroupsForSolidColliders({
-            belongsTo: [],
-            collidesWith: [],
-          });
-
-          const SPLATTER_LIFETIME_MS = 10000;
-          setTimeout(() => {
-            if (splatter.isSpawned) {
-              splatter.despawn();
-            }
-          }, SPLATTER_LIFETIME_MS);
+          console.log(`>>> Placing splatter at ${JSON.stringify(spawnPosition)} WITH rotation ${JSON.stringify(rotation)}`);
+          SplatterManager.instance.splat(this.world, faceKey, spawnPosition, rotation, shooterTeam?.color);
         } else {
           console.log('PaintballProjectile: Could not get contact point from manifold.');
         }
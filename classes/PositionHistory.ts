@@ -0,0 +1,68 @@
+import type { Vector3Like } from 'hytopia';
+
+export type PositionSample = {
+  position: Vector3Like;
+  timestamp: number;
+};
+
+/**
+ * A ring buffer of recent positions, so hits can be checked against
+ * where an entity was at an earlier time.
+ */
+export default class PositionHistory {
+  private readonly _samples: (PositionSample | undefined)[];
+  private _nextIndex: number = 0;
+
+  public constructor(size: number) {
+    this._samples = new Array(size).fill(undefined);
+  }
+
+  public record(position: Vector3Like, timestamp: number = Date.now()): void {
+    this._samples[this._nextIndex] = {
+      position: { x: position.x, y: position.y, z: position.z },
+      timestamp,
+    };
+
+    this._nextIndex = (this._nextIndex + 1) % this._samples.length;
+  }
+
+  /**
+   * Forgets every sample, for teleports that shouldn't be interpolated across.
+   */
+  public clear(): void {
+    this._samples.fill(undefined);
+    this._nextIndex = 0;
+  }
+
+  /**
+   * The position at the timestamp, interpolated between the samples around it.
+   * Clamps to the oldest or newest sample outside the recorded window.
+   */
+  public getPositionAt(timestamp: number): Vector3Like | undefined {
+    let before: PositionSample | undefined;
+    let after: PositionSample | undefined;
+
+    this._samples.forEach(sample => {
+      if (!sample) return;
+
+      if (sample.timestamp <= timestamp && (!before || sample.timestamp > before.timestamp)) {
+        before = sample;
+      }
+
+      if (sample.timestamp >= timestamp && (!after || sample.timestamp < after.timestamp)) {
+        after = sample;
+      }
+    });
+
+    if (!before || !after) return (before ?? after)?.position;
+    if (before === after || after.timestamp === before.timestamp) return before.position;
+
+    const t = (timestamp - before.timestamp) / (after.timestamp - before.timestamp);
+
+    return {
+      x: before.position.x + (after.position.x - before.position.x) * t,
+      y: before.position.y + (after.position.y - before.position.y) * t,
+      z: before.position.z + (after.position.z - before.position.z) * t,
+    };
+  }
+}
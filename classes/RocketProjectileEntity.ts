@@ -0,0 +1,113 @@
+import {
+  Collider,
+  CollisionGroup,
+  Entity,
+  EntityEvent,
+  Quaternion,
+  RigidBodyType,
+  Vector3Like,
+  World,
+  type BlockCollisionPayload,
+} from 'hytopia';
+
+import ExplosionManager from './ExplosionManager';
+import type GamePlayerEntity from './GamePlayerEntity';
+import type { GunProjectileOptions } from './GunEntity';
+
+const ROCKET_BLOCK_DAMAGE = 120; // Enough to break stone near the impact, but only soft blocks at the edge
+const ROCKET_DESTRUCTION_RADIUS = 4;
+const ROCKET_KNOCKBACK = 12;
+const ROCKET_LIFETIME_MS = 3000; // Rockets that hit nothing despawn after this long
+const ROCKET_MODEL_SCALE = 0.75;
+const ROCKET_MODEL_URI = 'models/items/rocket-missile.glb';
+
+/**
+ * A rocket that flies until it hits a block, then explodes.
+ */
+export default class RocketProjectileEntity extends Entity {
+  private readonly _damage: number;
+  private readonly _shooter: GamePlayerEntity;
+  private readonly _weaponName: string | undefined;
+  private _direction: Vector3Like = { x: 0, y: 0, z: 1 };
+  private _lifeTimeout: NodeJS.Timeout | undefined;
+
+  public constructor(options: GunProjectileOptions) {
+    super({
+      modelUri: ROCKET_MODEL_URI,
+      modelScale: ROCKET_MODEL_SCALE,
+      tag: 'rocket',
+      rigidBodyOptions: {
+        type: RigidBodyType.DYNAMIC,
+        ccdEnabled: true,
+        gravityScale: options.gravityScale ?? 0,
+        colliders: [
+          {
+            ...Collider.optionsFromModelUri(ROCKET_MODEL_URI, ROCKET_MODEL_SCALE),
+            collisionGroups: {
+              belongsTo: [ CollisionGroup.ENTITY ],
+              collidesWith: [ CollisionGroup.BLOCK ],
+            },
+          },
+        ],
+      },
+    });
+
+    this._damage = options.initialDamage;
+    this._shooter = options.shooter;
+    this._weaponName = options.weaponName;
+
+    this.on(EntityEvent.BLOCK_COLLISION, this._handleBlockCollision);
+  }
+
+  public override spawn(world: World, position: Vector3Like, rotation?: Quaternion): void {
+    super.spawn(world, position, rotation);
+
+    this._lifeTimeout = setTimeout(() => {
+      if (this.isSpawned) {
+        this.despawn();
+      }
+    }, ROCKET_LIFETIME_MS);
+  }
+
+  public override despawn(): void {
+    clearTimeout(this._lifeTimeout);
+    this._lifeTimeout = undefined;
+
+    super.despawn();
+  }
+
+  /**
+   * Launches the rocket, facing the direction it flies.
+   */
+  public initiate(velocity: Vector3Like): void {
+    if (!this.isSpawned) return;
+
+    this._direction = velocity;
+    this.setRotation(Quaternion.fromEuler(
+      Math.atan2(-velocity.y, Math.sqrt(velocity.x * velocity.x + velocity.z * velocity.z)) * 180 / Math.PI,
+      Math.atan2(velocity.x, velocity.z) * 180 / Math.PI,
+      0,
+    ));
+    this.setLinearVelocity(velocity);
+  }
+
+  private _handleBlockCollision = ({ blockType, colliderHandleA, colliderHandleB, started }: BlockCollisionPayload): void => {
+    if (!started || !this.world || !this.isSpawned || blockType.isLiquid) return;
+
+    const contactManifold = this.world.simulation.getContactManifolds(colliderHandleA, colliderHandleB)[0];
+    if (!contactManifold) return;
+
+    ExplosionManager.instance.explode(this.world, {
+      position: contactManifold.contactPoints[0],
+      radius: ROCKET_DESTRUCTION_RADIUS,
+      damage: this._damage,
+      blockDamage: ROCKET_BLOCK_DAMAGE,
+      knockback: ROCKET_KNOCKBACK,
+      source: this._shooter,
+      weaponName: this._weaponName,
+      direction: this._direction,
+    });
+
+    this.despawn();
+  }
+}
@@ -0,0 +1,189 @@
+import { Entity, QuaternionLike, RgbColor, RigidBodyType, Vector3Like, World } from 'hytopia';
+
+import { SPLATTER_LIFETIME_MS, SPLATTER_MAX_COUNT, SPLATTER_MAX_PER_CHUNK } from '../gameConfig';
+
+const CHUNK_SIZE = 16;
+const EXPIRY_INTERVAL_MS = 1000;
+const POOLED_SPLATTER_POSITION = { x: 0, y: -300, z: 0 }; // Pooled splatters wait out of sight
+const SPLATTER_MODEL_SCALE = 0.5;
+
+interface Splatter {
+  entity: Entity;
+  faceKey: string;
+  chunkKey: string;
+  expiresAt: number;
+}
+
+export type SplatterMetrics = {
+  live: number;
+  pooled: number;
+  spawned: number;    // Splatter entities created since startup.
+  merged: number;     // Hits that refreshed a splatter already on the same block face.
+  recycled: number;   // Live splatters taken over early because a budget was full.
+};
+
+/**
+ * Paint splatters are reused from a pool instead of spawned per hit, and capped
+ * globally and per chunk so sustained fire can't flood the world with entities.
+ */
+export default class SplatterManager {
+  public static instance: SplatterManager = new SplatterManager();
+
+  private _chunkCounts: Map<string, number> = new Map();
+  private _expiryTimer: NodeJS.Timeout | undefined;
+  private _metrics = { spawned: 0, merged: 0, recycled: 0 };
+  private _pool: Entity[] = [];
+  private _splatters: Map<string, Splatter> = new Map(); // By face key, oldest first
+
+  private constructor() {}
+
+  public get liveCount(): number { return this._splatters.size; }
+
+  public getMetrics(): SplatterMetrics {
+    return {
+      live: this._splatters.size,
+      pooled: this._pool.length,
+      ...this._metrics,
+    };
+  }
+
+  /**
+   * Shows a splatter on a block face. A face that already has one is refreshed
+   * in place, painted over with the latest color.
+   */
+  public splat(world: World, faceKey: string, position: Vector3Like, rotation: QuaternionLike, tintColor?: RgbColor): void {
+    const existingSplatter = this._splatters.get(faceKey);
+
+    if (existingSplatter && !existingSplatter.entity.isSpawned) {
+      this._removeSplatter(faceKey);
+    } else if (existingSplatter) {
+      this._metrics.merged++;
+      this._splatters.delete(faceKey); // Re-inserted below to become the newest
+      this._placeSplatter(existingSplatter.entity, position, rotation, tintColor);
+      this._splatters.set(faceKey, { ...existingSplatter, expiresAt: Date.now() + SPLATTER_LIFETIME_MS });
+      return;
+    }
+
+    const chunkKey = this._getChunkKey(position);
+
+    if ((this._chunkCounts.get(chunkKey) ?? 0) >= SPLATTER_MAX_PER_CHUNK) {
+      this._recycleOldest(splatter => splatter.chunkKey === chunkKey);
+    }
+
+    if (this._splatters.size >= SPLATTER_MAX_COUNT) {
+      this._recycleOldest();
+    }
+
+    const entity = this._takePooledEntity() ?? this._createSplatterEntity(world);
+
+    this._placeSplatter(entity, position, rotation, tintColor);
+    this._splatters.set(faceKey, { entity, faceKey, chunkKey, expiresAt: Date.now() + SPLATTER_LIFETIME_MS });
+    this._chunkCounts.set(chunkKey, (this._chunkCounts.get(chunkKey) ?? 0) + 1);
+    this._startExpiryTimer();
+  }
+
+  /**
+   * Returns every live splatter to the pool, for round resets.
+   */
+  public reset(): void {
+    Array.from(this._splatters.keys()).forEach(faceKey => this._removeSplatter(faceKey));
+
+    clearTimeout(this._expiryTimer);
+    this._expiryTimer = undefined;
+  }
+
+  private _createSplatterEntity(world: World): Entity {
+    const entity = new Entity({
+      modelUri: 'models/environment/paintsplatter.gltf',
+      modelScale: SPLATTER_MODEL_SCALE,
+      tag: 'splatter',
+      rigidBodyOptions: {
+        type: RigidBodyType.KINEMATIC_POSITION,
+      },
+    });
+
+    entity.spawn(world, POOLED_SPLATTER_POSITION);
+    entity.setCollisionGroupsForSolidColliders({
+      belongsTo: [],
+      collidesWith: [],
+    });
+
+    this._metrics.spawned++;
+
+    return entity;
+  }
+
+  private _expiryTicker(): void {
+    const now = Date.now();
+
+    // Splatters are ordered oldest first, so stop at the first one still showing
+    for (const [ faceKey, splatter ] of this._splatters) {
+      if (splatter.expiresAt > now) break;
+
+      this._removeSplatter(faceKey);
+    }
+
+    if (this._splatters.size) {
+      this._startExpiryTimer();
+    }
+  }
+
+  private _getChunkKey(position: Vector3Like): string {
+    return `${Math.floor(position.x / CHUNK_SIZE)},${Math.floor(position.y / CHUNK_SIZE)},${Math.floor(position.z / CHUNK_SIZE)}`;
+  }
+
+  private _placeSplatter(entity: Entity, position: Vector3Like, rotation: QuaternionLike, tintColor?: RgbColor): void {
+    entity.setPosition(position);
+    entity.setRotation(rotation);
+    entity.setTintColor(tintColor);
+  }
+
+  private _recycleOldest(filter: (splatter: Splatter) => boolean = () => true): void {
+    for (const [ faceKey, splatter ] of this._splatters) {
+      if (!filter(splatter)) continue;
+
+      this._metrics.recycled++;
+      this._removeSplatter(faceKey);
+      return;
+    }
+  }
+
+  private _removeSplatter(faceKey: string): void {
+    const splatter = this._splatters.get(faceKey);
+    if (!splatter) return;
+
+    this._splatters.delete(faceKey);
+
+    const chunkCount = (this._chunkCounts.get(splatter.chunkKey) ?? 1) - 1;
+    if (chunkCount > 0) {
+      this._chunkCounts.set(splatter.chunkKey, chunkCount);
+    } else {
+      this._chunkCounts.delete(splatter.chunkKey);
+    }
+
+    // Despawned splatters, like after the world was torn down, can't be reused
+    if (!splatter.entity.isSpawned) return;
+
+    splatter.entity.setPosition(POOLED_SPLATTER_POSITION);
+    this._pool.push(splatter.entity);
+  }
+
+  private _takePooledEntity(): Entity | undefined {
+    let entity = this._pool.pop();
+
+    while (entity && !entity.isSpawned) {
+      entity = this._pool.pop();
+    }
+
+    return entity;
+  }
+
+  private _startExpiryTimer(): void {
+    if (this._expiryTimer) return;
+
+    this._expiryTimer = setTimeout(() => {
+      this._expiryTimer = undefined;
+      this._expiryTicker();
+    }, EXPIRY_INTERVAL_MS);
+  }
+}
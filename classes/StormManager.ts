@@ -0,0 +1,176 @@
+import { GameServer, Player, Vector3Like, World } from 'hytopia';
+
+import {
+  STORM_DAMAGE_INTERVAL_MS,
+  STORM_INITIAL_ZONE,
+  STORM_PHASES,
+} from '../gameConfig';
+
+import GamePlayerEntity from './GamePlayerEntity';
+
+export type StormZone = {
+  center: { x: number, z: number };
+  radius: number;
+};
+
+/**
+ * Shrinking safe zone for a round. The zone is a circle on the x/z plane,
+ * players outside of it take periodic damage from the storm.
+ */
+export default class StormManager {
+  public static instance: StormManager = new StormManager();
+
+  private _world: World | undefined;
+  private _active: boolean = false;
+  private _phaseIndex: number = 0;
+  private _phaseStartedAt: number = 0;
+  private _fromZone: StormZone = STORM_INITIAL_ZONE;
+  private _toZone: StormZone = STORM_INITIAL_ZONE;
+  private _shrinking: boolean = false;
+  private _stormTimer: NodeJS.Timeout | undefined;
+
+  private constructor() {}
+
+  public get isActive(): boolean { return this._active; }
+
+  private get _phase() { return STORM_PHASES[Math.min(this._phaseIndex, STORM_PHASES.length - 1)]; }
+  private get _isFinalZone(): boolean { return this._phaseIndex >= STORM_PHASES.length; }
+
+  public start(world: World): void {
+    this.stop();
+
+    this._world = world;
+    this._active = true;
+    this._phaseIndex = 0;
+    this._phaseStartedAt = Date.now();
+    this._fromZone = STORM_INITIAL_ZONE;
+    this._toZone = this._pickNextZone(STORM_INITIAL_ZONE, STORM_PHASES[0].radius);
+    this._shrinking = false;
+
+    this._stormTicker();
+  }
+
+  public stop(): void {
+    if (!this._active) return;
+
+    this._active = false;
+    clearTimeout(this._stormTimer);
+    this._broadcastZoneUpdate();
+  }
+
+  /**
+   * Gets the safe zone at this moment, interpolated while the zone is shrinking.
+   */
+  public getCurrentZone(): StormZone {
+    if (this._isFinalZone) return this._toZone;
+
+    const shrinkProgress = Math.max(0, Math.min(1, (Date.now() - this._phaseStartedAt - this._phase.waitMs) / this._phase.shrinkMs));
+
+    return {
+      center: {
+        x: this._fromZone.center.x + (this._toZone.center.x - this._fromZone.center.x) * shrinkProgress,
+        z: this._fromZone.center.z + (this._toZone.center.z - this._fromZone.center.z) * shrinkProgress,
+      },
+      radius: this._fromZone.radius + (this._toZone.radius - this._fromZone.radius) * shrinkProgress,
+    };
+  }
+
+  public isInsideZone(position: Vector3Like): boolean {
+    const { center, radius } = this.getCurrentZone();
+
+    return Math.hypot(position.x - center.x, position.z - center.z) <= radius;
+  }
+
+  /**
+   * Syncs the zone UI for a specific player, such as one joining mid round.
+   */
+  public syncZone(player: Player): void {
+    player.ui.sendData(this._getZoneUpdateData());
+  }
+
+  private _advancePhase(): void {
+    this._fromZone = this._toZone;
+    this._phaseIndex++;
+    this._phaseStartedAt = Date.now();
+    this._shrinking = false;
+
+    if (!this._isFinalZone) {
+      this._toZone = this._pickNextZone(this._fromZone, this._phase.radius);
+    }
+  }
+
+  private _damagePlayersOutsideZone(): void {
+    if (!this._world) return;
+
+    const { center } = this.getCurrentZone();
+
+    this._world.entityManager.getAllPlayerEntities().forEach(entity => {
+      if (!(entity instanceof GamePlayerEntity) || entity.isDead || entity.isSpectating || this.isInsideZone(entity.position)) return;
+
+      // Damage comes from the storm wall, so point the hit direction towards the zone center
+      const dx = center.x - entity.position.x;
+      const dz = center.z - entity.position.z;
+      const distance = Math.hypot(dx, dz) || 1;
+
+      entity.takeDamage(this._phase.damage, { x: dx / distance, y: 0, z: dz / distance }, undefined, { weaponName: 'Storm' });
+    });
+  }
+
+  private _getZoneUpdateData() {
+    const shrinkStartsAt = this._phaseStartedAt + this._phase.waitMs;
+
+    return {
+      type: 'zone-update',
+      show: this._active,
+      current: this.getCurrentZone(),
+      next: this._toZone,
+      shrinkStartsAt: this._isFinalZone ? undefined : shrinkStartsAt,
+      shrinkEndsAt: this._isFinalZone ? undefined : shrinkStartsAt + this._phase.shrinkMs,
+    };
+  }
+
+  private _broadcastZoneUpdate(): void {
+    if (!this._world) return;
+
+    const zoneUpdateData = this._getZoneUpdateData();
+
+    GameServer.instance.playerManager.getConnectedPlayersByWorld(this._world).forEach(player => {
+      player.ui.sendData(zoneUpdateData);
+    });
+  }
+
+  private _pickNextZone(zone: StormZone, radius: number): StormZone {
+    // The next zone always fits entirely inside the current one
+    const maxOffset = Math.max(0, zone.radius - radius);
+    const offsetAngle = Math.random() * Math.PI * 2;
+    const offsetDistance = Math.sqrt(Math.random()) * maxOffset;
+
+    return {
+      center: {
+        x: zone.center.x + Math.cos(offsetAngle) * offsetDistance,
+        z: zone.center.z + Math.sin(offsetAngle) * offsetDistance,
+      },
+      radius,
+    };
+  }
+
+  private _stormTicker(): void {
+    if (!this._active) return;
+
+    if (!this._isFinalZone) {
+      const phaseElapsedMs = Date.now() - this._phaseStartedAt;
+
+      if (phaseElapsedMs >= this._phase.waitMs + this._phase.shrinkMs) {
+        this._advancePhase();
+      } else if (!this._shrinking && phaseElapsedMs >= this._phase.waitMs) {
+        this._shrinking = true;
+        this._world?.chatManager.sendBroadcastMessage('The storm is closing in, get inside the safe zone!', 'A020F0');
+      }
+    }
+
+    this._damagePlayersOutsideZone();
+    this._broadcastZoneUpdate();
+
+    this._stormTimer = setTimeout(() => this._stormTicker(), STORM_DAMAGE_INTERVAL_MS);
+  }
+}
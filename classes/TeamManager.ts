@@ -0,0 +1,88 @@
+import { TEAMS } from '../gameConfig';
+
+export type Team = typeof TEAMS[number];
+
+export default class TeamManager {
+  public static instance: TeamManager = new TeamManager();
+
+  private _playerTeams: Map<string, Team> = new Map();
+  private _teamScores: Map<string, number> = new Map();
+
+  private constructor() {}
+
+  public get teams(): Team[] { return TEAMS; }
+
+  /**
+   * Assigns a player to the team with the fewest members, breaking ties
+   * by the lowest score so new players reinforce the losing side.
+   */
+  public assignPlayer(username: string): Team {
+    const existingTeam = this._playerTeams.get(username);
+    if (existingTeam) return existingTeam;
+
+    const team = [ ...TEAMS ].sort((a, b) => {
+      const memberDifference = this.getTeamMembers(a.id).length - this.getTeamMembers(b.id).length;
+      return memberDifference !== 0 ? memberDifference : this.getTeamScore(a.id) - this.getTeamScore(b.id);
+    })[0];
+
+    this._playerTeams.set(username, team);
+
+    return team;
+  }
+
+  public removePlayer(username: string): void {
+    this._playerTeams.delete(username);
+  }
+
+  public getPlayerTeam(username: string): Team | undefined {
+    return this._playerTeams.get(username);
+  }
+
+  public getTeamMembers(teamId: string): string[] {
+    return Array.from(this._playerTeams.entries())
+      .filter(([ , team ]) => team.id === teamId)
+      .map(([ username ]) => username);
+  }
+
+  /**
+   * Returns true if both players are on the same team. Players without a team,
+   * such as in free-for-all, are never teammates.
+   */
+  public areTeammates(usernameA: string, usernameB: string): boolean {
+    const teamA = this._playerTeams.get(usernameA);
+    const teamB = this._playerTeams.get(usernameB);
+
+    return !!teamA && !!teamB && teamA.id === teamB.id;
+  }
+
+  public addTeamScore(teamId: string, amount: number = 1): number {
+    const newScore = this.getTeamScore(teamId) + amount;
+    this._teamScores.set(teamId, newScore);
+
+    return newScore;
+  }
+
+  public getTeamScore(teamId: string): number {
+    return this._teamScores.get(teamId) ?? 0;
+  }
+
+  public getTeamScores(): Record<string, number> {
+    return Object.fromEntries(TEAMS.map(team => [ team.id, this.getTeamScore(team.id) ]));
+  }
+
+  /**
+   * Returns the team with the highest score, or undefined if no team scored or the top teams are tied.
+   */
+  public getWinningTeam(): Team | undefined {
+    const [ first, second ] = [ ...TEAMS ].sort((a, b) => this.getTeamScore(b.id) - this.getTeamScore(a.id));
+
+    if (!first || this.getTeamScore(first.id) === 0) return undefined;
+    if (second && this.getTeamScore(second.id) === this.getTeamScore(first.id)) return undefined;
+
+    return first;
+  }
+
+  public resetScores(): void {
+    this._teamScores.clear();
+  }
+}
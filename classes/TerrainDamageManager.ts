@@ -1,19 +1,45 @@
-import { Block, Vector3Like, World } from 'hytopia';
+import { Block, Entity, Player, RigidBodyType, Vector3Like, World } from 'hytopia';
 import {
   BEDROCK_BLOCK_ID,
+  BLOCK_DAMAGE_DECAY_DELAY_MS,
+  BLOCK_DAMAGE_DECAY_PER_SECOND,
   BLOCK_ID_BREAK_DAMAGE,
   BLOCK_ID_MATERIALS,
  } from '../gameConfig';
+import TerrainEditManager from './TerrainEditManager';
+
+const DECAY_INTERVAL_MS = 1000;
+
+// Damaged blocks are covered by a copy of the block, darkened more at every stage.
+const CRACK_STAGES = [
+  { damagePercent: 0.25, tintColor: { r: 200, g: 200, b: 200 } },
+  { damagePercent: 0.5, tintColor: { r: 140, g: 140, b: 140 } },
+  { damagePercent: 0.75, tintColor: { r: 80, g: 80, b: 80 } },
+];
 
 interface BlockDamage {
   blockId: number;
+  coordinate: Vector3Like;
+  crackEntity?: Entity;
+  crackStage: number;        // Index into CRACK_STAGES, -1 before the first stage.
+  lastDamagedAt: number;
+  textureUri: string;
   totalDamage: number;
 }
 
+export type BlockDamageInfo = {
+  blockId: number;
+  damage: number;
+  breakDamage: number;       // The total damage that breaks the block.
+  health: number;            // Between 0 and 1.
+};
+
 export default class TerrainDamageManager {
   public static instance: TerrainDamageManager = new TerrainDamageManager();
 
   private _blockDamages: Map<string, BlockDamage> = new Map();
+  private _decayTimer: NodeJS.Timeout | undefined;
+  private _world: World | undefined;
 
   private constructor() {}
 
@@ -21,7 +47,11 @@ export default class TerrainDamageManager {
     return BLOCK_ID_MATERIALS[blockId] ?? BLOCK_ID_MATERIALS.default; 
   }
 
-  public damageBlock(world: World, block: Block, damage: number): boolean {
+  public damageBlock(world: World, block: Block, damage: number, player?: Player): boolean {
+    if (!TerrainEditManager.instance.canEdit(world, block.globalCoordinate, 'break', player)) {
+      return false;
+    }
+
     const coordinateKey = this._coordinateToKey(block.globalCoordinate);
     let blockDamage = this._blockDamages.get(coordinateKey);
 
@@ -32,25 +62,148 @@ export default class TerrainDamageManager {
         return false;
       }
 
-      blockDamage = { blockId, totalDamage: 0 };
+      blockDamage = {
+        blockId,
+        coordinate: { ...block.globalCoordinate },
+        crackStage: -1,
+        lastDamagedAt: 0,
+        textureUri: block.blockType.textureUri,
+        totalDamage: 0,
+      };
+
       this._blockDamages.set(coordinateKey, blockDamage);
     }
 
+    this._world = world;
     blockDamage.totalDamage += damage;
+    blockDamage.lastDamagedAt = Date.now();
 
-    const requiredBreakDamage = BLOCK_ID_BREAK_DAMAGE[blockDamage.blockId] ?? BLOCK_ID_BREAK_DAMAGE.default;
-
-    if (blockDamage.totalDamage >= requiredBreakDamage) {
-      world.chunkLattice.setBlock(block.globalCoordinate, 0);
-      this._blockDamages.delete(coordinateKey);
+    if (blockDamage.totalDamage >= this._getBreakDamage(blockDamage.blockId)) {
+      TerrainEditManager.instance.setBlock(world, block.globalCoordinate, 0, 'break', player);
+      this._removeBlockDamage(coordinateKey);
       
       return true;
     }
 
+    this._updateCrackStage(world, blockDamage);
+    this._startDecayTimer();
+
     return false;
   }
 
+  /**
+   * The damage taken by a block that hasn't broken yet, undefined for undamaged blocks.
+   */
+  public getBlockDamage(coordinate: Vector3Like): BlockDamageInfo | undefined {
+    const blockDamage = this._blockDamages.get(this._coordinateToKey(coordinate));
+    if (!blockDamage) return;
+
+    const breakDamage = this._getBreakDamage(blockDamage.blockId);
+
+    return {
+      blockId: blockDamage.blockId,
+      damage: blockDamage.totalDamage,
+      breakDamage,
+      health: Math.max(0, 1 - blockDamage.totalDamage / breakDamage),
+    };
+  }
+
+  /**
+   * Forgets partial damage, used when the terrain is restored between rounds.
+   */
+  public reset(): void {
+    Array.from(this._blockDamages.keys()).forEach(coordinateKey => this._removeBlockDamage(coordinateKey));
+
+    clearTimeout(this._decayTimer);
+    this._decayTimer = undefined;
+  }
+
   private _coordinateToKey(coordinate: Vector3Like): string {
     return `${coordinate.x},${coordinate.y},${coordinate.z}`;
   }
-}
\ No newline at end of file
+
+  private _getBreakDamage(blockId: number): number {
+    return BLOCK_ID_BREAK_DAMAGE[blockId] ?? BLOCK_ID_BREAK_DAMAGE.default;
+  }
+
+  private _removeBlockDamage(coordinateKey: string): void {
+    const crackEntity = this._blockDamages.get(coordinateKey)?.crackEntity;
+
+    if (crackEntity?.isSpawned) {
+      crackEntity.despawn();
+    }
+
+    this._blockDamages.delete(coordinateKey);
+  }
+
+  private _startDecayTimer(): void {
+    if (this._decayTimer) return;
+
+    this._decayTimer = setTimeout(() => {
+      this._decayTimer = undefined;
+      this._decayTicker();
+    }, DECAY_INTERVAL_MS);
+  }
+
+  private _decayTicker(): void {
+    const world = this._world;
+    if (!world) return;
+
+    const now = Date.now();
+
+    this._blockDamages.forEach((blockDamage, coordinateKey) => {
+      // The block was broken or replaced by something else, like a rocket or the round reset
+      if (world.chunkLattice.getBlockId(blockDamage.coordinate) !== blockDamage.blockId) {
+        this._removeBlockDamage(coordinateKey);
+        return;
+      }
+
+      if (now - blockDamage.lastDamagedAt < BLOCK_DAMAGE_DECAY_DELAY_MS) return;
+
+      blockDamage.totalDamage -= BLOCK_DAMAGE_DECAY_PER_SECOND * DECAY_INTERVAL_MS / 1000;
+
+      if (blockDamage.totalDamage <= 0) {
+        this._removeBlockDamage(coordinateKey);
+      } else {
+        this._updateCrackStage(world, blockDamage);
+      }
+    });
+
+    if (this._blockDamages.size) {
+      this._startDecayTimer();
+    }
+  }
+
+  private _updateCrackStage(world: World, blockDamage: BlockDamage): void {
+    const damagePercent = blockDamage.totalDamage / this._getBreakDamage(blockDamage.blockId);
+    const crackStage = CRACK_STAGES.filter(stage => damagePercent >= stage.damagePercent).length - 1;
+
+    if (crackStage === blockDamage.crackStage) return;
+
+    blockDamage.crackStage = crackStage;
+
+    if (crackStage === -1) {
+      if (blockDamage.crackEntity?.isSpawned) {
+        blockDamage.crackEntity.despawn();
+      }
+
+      blockDamage.crackEntity = undefined;
+      return;
+    }
+
+    if (!blockDamage.crackEntity) {
+      // Slightly larger than the block so it covers it without flickering
+      blockDamage.crackEntity = new Entity({
+        blockTextureUri: blockDamage.textureUri,
+        blockHalfExtents: { x: 0.505, y: 0.505, z: 0.505 },
+        rigidBodyOptions: { type: RigidBodyType.FIXED },
+      });
+
+      const { x, y, z } = blockDamage.coordinate;
+      blockDamage.crackEntity.spawn(world, { x: x + 0.5, y: y + 0.5, z: z + 0.5 });
+      blockDamage.crackEntity.setCollisionGroupsForSolidColliders({ belongsTo: [], collidesWith: [] }); // Hit raycasts pass through to the block
+    }
+
+    blockDamage.crackEntity.setTintColor(CRACK_STAGES[crackStage].tintColor);
+  }
+}
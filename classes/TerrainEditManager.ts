@@ -0,0 +1,182 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { Player, Vector3Like, World } from 'hytopia';
+
+import { PROTECTED_REGIONS } from '../gameConfig';
+import AABB from './AABB';
+
+const JOURNAL_EXPORT_DIRECTORY = 'terrain-journals';
+const PROTECTION_MESSAGE_COOLDOWN_MS = 2000; // Explosions can be blocked many times at once
+
+export type TerrainEditCause = 'break' | 'build' | 'explosion' | 'undo';
+
+export type ProtectedRegion = typeof PROTECTED_REGIONS[number];
+
+const CAUSE_PROTECTION_RULES: Partial<Record<TerrainEditCause, ProtectedRegion['rules'][number]>> = {
+  break: 'no-break',
+  build: 'no-build',
+  explosion: 'no-explosion',
+};
+
+const PROTECTION_MESSAGES: Partial<Record<TerrainEditCause, string>> = {
+  break: 'You can\'t break blocks in',
+  build: 'You can\'t build in',
+  explosion: 'Explosions don\'t break blocks in',
+};
+
+export type TerrainEdit = {
+  coordinate: Vector3Like;
+  previousBlockId: number;
+  blockId: number;
+  cause: TerrainEditCause;
+  username?: string;           // The player that made the edit, if any.
+  timestamp: number;
+};
+
+/**
+ * Every gameplay block change goes through here so a round reset can put the
+ * map back the way it was loaded, and every change is journaled so edits can
+ * be undone per player and exported for analysis after a match.
+ */
+export default class TerrainEditManager {
+  public static instance: TerrainEditManager = new TerrainEditManager();
+
+  private _journal: TerrainEdit[] = [];
+  private _lastProtectionMessageAt: Map<string, number> = new Map();
+  private _originalBlockIds: Map<string, { coordinate: Vector3Like, blockId: number }> = new Map();
+
+  private constructor() {}
+
+  public get editedBlockCount(): number { return this._originalBlockIds.size; }
+  public get journal(): readonly TerrainEdit[] { return this._journal; }
+
+  /**
+   * Starts tracking from the current terrain as the snapshot rounds are restored to.
+   */
+  public snapshot(): void {
+    this._journal = [];
+    this._originalBlockIds.clear();
+  }
+
+  /**
+   * The region that forbids this kind of edit at the coordinate, if any.
+   */
+  public getProtectedRegion(coordinate: Vector3Like, cause: TerrainEditCause): ProtectedRegion | undefined {
+    const rule = CAUSE_PROTECTION_RULES[cause];
+    if (!rule) return;
+
+    return PROTECTED_REGIONS.find(region => region.rules.includes(rule) && AABB.contains(region, coordinate));
+  }
+
+  /**
+   * Whether the edit is allowed, telling the player why when it isn't.
+   */
+  public canEdit(world: World, coordinate: Vector3Like, cause: TerrainEditCause, player?: Player): boolean {
+    const region = this.getProtectedRegion(coordinate, cause);
+    if (!region) return true;
+
+    if (player) {
+      this._sendProtectionMessage(world, player, region, cause);
+    }
+
+    return false;
+  }
+
+  /**
+   * Changes a block unless a protected region forbids it, returns whether the block was changed.
+   */
+  public setBlock(world: World, coordinate: Vector3Like, blockId: number, cause: TerrainEditCause, player?: Player): boolean {
+    if (!this.canEdit(world, coordinate, cause, player)) return false;
+
+    const coordinateKey = this._coordinateToKey(coordinate);
+    const previousBlockId = world.chunkLattice.getBlockId(coordinate);
+
+    // Only the block a coordinate had before its first edit is needed to restore it
+    if (!this._originalBlockIds.has(coordinateKey)) {
+      this._originalBlockIds.set(coordinateKey, {
+        coordinate: { x: coordinate.x, y: coordinate.y, z: coordinate.z },
+        blockId: previousBlockId,
+      });
+    }
+
+    this._journal.push({
+      coordinate: { x: coordinate.x, y: coordinate.y, z: coordinate.z },
+      previousBlockId,
+      blockId,
+      cause,
+      username: player?.username,
+      timestamp: Date.now(),
+    });
+
+    world.chunkLattice.setBlock(coordinate, blockId);
+
+    return true;
+  }
+
+  /**
+   * Reverts a player's edits from newest to oldest, skipping blocks that were
+   * changed again since. Returns the number of blocks reverted.
+   */
+  public undoPlayerEdits(world: World, username: string, undoneBy?: Player): number {
+    const playerEdits = this._journal.filter(edit => edit.username === username && edit.cause !== 'undo').reverse();
+    let undoneCount = 0;
+
+    playerEdits.forEach(edit => {
+      if (world.chunkLattice.getBlockId(edit.coordinate) !== edit.blockId) return;
+
+      this.setBlock(world, edit.coordinate, edit.previousBlockId, 'undo', undoneBy);
+      undoneCount++;
+    });
+
+    console.log(`>>> [TerrainEditManager] undoPlayerEdits: Reverted ${undoneCount} blocks edited by ${username}`);
+
+    return undoneCount;
+  }
+
+  /**
+   * Restores every edited block to the snapshot and starts a new journal.
+   */
+  public restore(world: World): void {
+    this._originalBlockIds.forEach(({ coordinate, blockId }) => {
+      if (world.chunkLattice.getBlockId(coordinate) !== blockId) {
+        world.chunkLattice.setBlock(coordinate, blockId);
+      }
+    });
+
+    console.log(`>>> [TerrainEditManager] restore: Restored ${this._originalBlockIds.size} edited blocks`);
+
+    this._journal = [];
+    this._originalBlockIds.clear();
+  }
+
+  public exportJournal(): string {
+    return JSON.stringify(this._journal, null, 2);
+  }
+
+  /**
+   * Writes the journal to a timestamped JSON file, returning its path.
+   */
+  public async saveJournal(): Promise<string> {
+    const path = `${JOURNAL_EXPORT_DIRECTORY}/terrain-journal-${Date.now()}.json`;
+    const editCount = this._journal.length;
+    const json = this.exportJournal(); // Serialized up front, a round reset can clear the journal while writing
+
+    await mkdir(JOURNAL_EXPORT_DIRECTORY, { recursive: true });
+    await writeFile(path, json);
+
+    console.log(`>>> [TerrainEditManager] saveJournal: Saved ${editCount} edits to ${path}`);
+
+    return path;
+  }
+
+  private _sendProtectionMessage(world: World, player: Player, region: ProtectedRegion, cause: TerrainEditCause): void {
+    const now = Date.now();
+    if (now - (this._lastProtectionMessageAt.get(player.username) ?? 0) < PROTECTION_MESSAGE_COOLDOWN_MS) return;
+
+    this._lastProtectionMessageAt.set(player.username, now);
+    world.chatManager.sendPlayerMessage(player, `${PROTECTION_MESSAGES[cause]} ${region.name}.`, 'FF0000');
+  }
+
+  private _coordinateToKey(coordinate: Vector3Like): string {
+    return `${coordinate.x},${coordinate.y},${coordinate.z}`;
+  }
+}
@@ -0,0 +1,170 @@
+import type { Vector3Like } from 'hytopia';
+
+import weaponsData from '../assets/weapons.json';
+
+import type { GunHand, GunPelletOffset } from './GunEntity';
+
+const GUN_HANDS: GunHand[] = [ 'left', 'right', 'both' ];
+const OPTIONAL_NUMBER_FIELDS = [ 'bloomPerShot', 'headshotMultiplier', 'maxBloom', 'pelletCount', 'projectileSpeed', 'reloadAfterShotMs', 'scopeZoom', 'spread' ];
+const REQUIRED_NUMBER_FIELDS = [ 'damage', 'fireRate', 'maxAmmo', 'modelScale', 'range', 'reloadTimeMs', 'totalAmmo' ];
+const REQUIRED_STRING_FIELDS = [ 'id', 'name', 'iconImageUri', 'idleAnimation', 'mlAnimation', 'modelUri', 'reloadAudioUri', 'shootAudioUri' ];
+
+export type WeaponPose = {
+  position: Vector3Like;  // Relative to the parent, the gun when a muzzle flash, the hand anchor when equipped.
+  rotation: Vector3Like;  // Euler angles in degrees.
+};
+
+export type WeaponDefinition = {
+  id: string;                  // The item id used by ItemFactory, chests and spawns.
+  name: string;
+  iconImageUri: string;
+  modelUri: string;
+  modelScale: number;
+  heldHand: GunHand;
+  idleAnimation: string;
+  mlAnimation: string;
+  damage: number;
+  fireRate: number;            // Bullets shot per second.
+  bloomPerShot?: number;       // Degrees of spread each shot adds.
+  maxBloom?: number;           // The most degrees of spread sustained fire can add.
+  headshotMultiplier?: number;
+  maxAmmo: number;             // The amount of ammo the clip can hold.
+  totalAmmo: number;
+  range: number;
+  scopeZoom?: number;
+  reloadAudioUri: string;
+  reloadTimeMs: number;
+  reloadAfterShotMs?: number;  // Automatically reload this long after every shot, e.g. bolt action guns.
+  shootAudioUri: string;
+  muzzleFlash: WeaponPose;
+  equipPose?: WeaponPose;      // Overrides the default held position and rotation.
+  pellets?: GunPelletOffset[]; // Spread of each projectile fired per shot.
+  pelletCount?: number;        // Projectiles fired per shot when pellets is unset.
+  projectileGravityScale?: number;
+  projectileSpeed?: number;    // Meters per second.
+  spread?: number;             // Degrees each projectile randomly deviates within a cone.
+};
+
+/**
+ * Gun definitions loaded from assets/weapons.json. Every definition is validated
+ * on load so a bad edit fails server startup instead of a round in progress.
+ */
+export default class WeaponDefinitions {
+  private static _definitions: Map<string, WeaponDefinition> | undefined;
+
+  public static load(): void {
+    if (this._definitions) return;
+
+    const definitions = this._validate(weaponsData);
+    this._definitions = new Map(definitions.map(definition => [ definition.id, definition ]));
+
+    console.log(`>>> [WeaponDefinitions] load: Loaded ${definitions.length} weapon definitions`);
+  }
+
+  public static get(weaponId: string): WeaponDefinition | undefined {
+    this.load();
+
+    return this._definitions!.get(weaponId);
+  }
+
+  public static getAll(): WeaponDefinition[] {
+    this.load();
+
+    return Array.from(this._definitions!.values());
+  }
+
+  private static _validate(data: unknown): WeaponDefinition[] {
+    if (!Array.isArray(data)) {
+      throw new Error('WeaponDefinitions: assets/weapons.json must contain an array of weapon definitions');
+    }
+
+    const errors: string[] = [];
+    const seenIds = new Set<string>();
+
+    data.forEach((entry: unknown, index) => {
+      if (typeof entry !== 'object' || entry === null) {
+        errors.push(`#${index}: must be an object`);
+        return;
+      }
+
+      const definition = entry as Record<string, unknown>;
+      const label = typeof definition.id === 'string' ? definition.id : `#${index}`;
+
+      REQUIRED_STRING_FIELDS.forEach(field => {
+        if (typeof definition[field] !== 'string' || !definition[field]) {
+          errors.push(`${label}: ${field} must be a non-empty string`);
+        }
+      });
+
+      REQUIRED_NUMBER_FIELDS.forEach(field => {
+        if (!this._isPositiveNumber(definition[field])) {
+          errors.push(`${label}: ${field} must be a positive number`);
+        }
+      });
+
+      OPTIONAL_NUMBER_FIELDS.forEach(field => {
+        if (definition[field] !== undefined && !this._isPositiveNumber(definition[field])) {
+          errors.push(`${label}: ${field} must be a positive number when set`);
+        }
+      });
+
+      if (!GUN_HANDS.includes(definition.heldHand as GunHand)) {
+        errors.push(`${label}: heldHand must be one of ${GUN_HANDS.join(', ')}`);
+      }
+
+      if (!this._isPose(definition.muzzleFlash)) {
+        errors.push(`${label}: muzzleFlash must have a position and rotation with x, y and z numbers`);
+      }
+
+      if (definition.equipPose !== undefined && !this._isPose(definition.equipPose)) {
+        errors.push(`${label}: equipPose must have a position and rotation with x, y and z numbers`);
+      }
+
+      if (definition.pellets !== undefined && (
+        !Array.isArray(definition.pellets) ||
+        !definition.pellets.length ||
+        !definition.pellets.every((pellet: unknown) => this._hasNumberFields(pellet, [ 'x', 'y' ]))
+      )) {
+        errors.push(`${label}: pellets must be a non-empty array of x and y offsets`);
+      }
+
+      if (definition.pelletCount !== undefined && !Number.isInteger(definition.pelletCount)) {
+        errors.push(`${label}: pelletCount must be a whole number`);
+      }
+
+      if (definition.projectileGravityScale !== undefined && !(typeof definition.projectileGravityScale === 'number' && definition.projectileGravityScale >= 0)) {
+        errors.push(`${label}: projectileGravityScale must be a number of at least 0 when set`);
+      }
+
+      if (seenIds.has(label)) {
+        errors.push(`${label}: id is used by more than one weapon`);
+      }
+
+      seenIds.add(label);
+    });
+
+    if (errors.length) {
+      throw new Error(`WeaponDefinitions: assets/weapons.json is invalid\n- ${errors.join('\n- ')}`);
+    }
+
+    return data as WeaponDefinition[];
+  }
+
+  private static _hasNumberFields(value: unknown, fields: string[]): boolean {
+    if (typeof value !== 'object' || value === null) return false;
+
+    const record = value as Record<string, unknown>;
+    return fields.every(field => typeof record[field] === 'number');
+  }
+
+  private static _isPose(value: unknown): boolean {
+    if (typeof value !== 'object' || value === null) return false;
+
+    const { position, rotation } = value as Record<string, unknown>;
+    return this._hasNumberFields(position, [ 'x', 'y', 'z' ]) && this._hasNumberFields(rotation, [ 'x', 'y', 'z' ]);
+  }
+
+  private static _isPositiveNumber(value: unknown): boolean {
+    return typeof value === 'number' && Number.isFinite(value) && value > 0;
+  }
+}
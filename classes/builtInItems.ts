@@ -0,0 +1,61 @@
+import ItemFactory from './ItemFactory';
+import WeaponDefinitions from './WeaponDefinitions';
+
+/**
+ * Registers every built-in item with the ItemFactory, new built-in items only
+ * need to be added here. Item classes are imported when an item is first created,
+ * importing them up front loads ItemEntity through a circular import of itself.
+ */
+export function registerBuiltInItems(): void {
+  ItemFactory.registerItem({
+    id: 'custom-gun',
+    name: 'Paintball Gun',
+    iconImageUri: 'icons/paintball-gun.png',
+    create: async () => new (await import('./weapons/CustomGunEntity')).default(),
+  });
+
+  ItemFactory.registerItem({
+    id: 'gravity-potion',
+    name: 'Gravity Potion',
+    iconImageUri: 'icons/gravity-potion.png',
+    create: async () => new (await import('./items/GravityPotionEntity')).default(),
+  });
+
+  ItemFactory.registerItem({
+    id: 'medpack',
+    name: 'Med Pack',
+    iconImageUri: 'icons/medpack.png',
+    create: async () => new (await import('./items/MedPackEntity')).default(),
+  });
+
+  ItemFactory.registerItem({
+    id: 'mining-drill',
+    name: 'Mining Drill',
+    iconImageUri: 'icons/mining-drill.png',
+    create: async () => new (await import('./weapons/MiningDrillEntity')).default(),
+  });
+
+  ItemFactory.registerItem({
+    id: 'rocket-launcher',
+    name: 'Rocket Launcher',
+    iconImageUri: 'icons/rocket-launcher.png',
+    create: async () => new (await import('./weapons/RocketLauncherEntity')).default(),
+  });
+
+  ItemFactory.registerItem({
+    id: 'shield-potion',
+    name: 'Shield Potion',
+    iconImageUri: 'icons/shield-potion.png',
+    create: async () => new (await import('./items/ShieldPotionEntity')).default(),
+  });
+
+  // Every gun in assets/weapons.json is an item
+  WeaponDefinitions.getAll().forEach(definition => {
+    ItemFactory.registerItem({
+      id: definition.id,
+      name: definition.name,
+      iconImageUri: definition.iconImageUri,
+      create: async () => new (await import('./weapons/GenericGunEntity')).default(definition),
+    });
+  });
+}
@@ -0,0 +1,134 @@
+import type { Player } from 'hytopia';
+
+import { CTF_CAPTURE_LIMIT, CTF_TEAM_BASES } from '../../gameConfig';
+import AABB from '../AABB';
+import FlagEntity from '../FlagEntity';
+import GameManager from '../GameManager';
+import TeamDeathmatchGameMode from './TeamDeathmatchGameMode';
+import TeamManager from '../TeamManager';
+import type { GameModeAnnouncement, GameModeOptions, Scoreboard } from './GameMode';
+import type GamePlayerEntity from '../GamePlayerEntity';
+import type { Team } from '../TeamManager';
+
+const DEFAULT_CAPTURE_THE_FLAG_OPTIONS: GameModeOptions = {
+  id: 'capture-the-flag',
+  name: 'Capture The Flag',
+};
+
+export default class CaptureTheFlagGameMode extends TeamDeathmatchGameMode {
+  private readonly _flags: Map<string, FlagEntity> = new Map();
+
+  public constructor(options: Partial<GameModeOptions> = {}) {
+    super({ ...DEFAULT_CAPTURE_THE_FLAG_OPTIONS, ...options });
+  }
+
+  public override onRoundStart(): void {
+    super.onRoundStart();
+
+    TeamManager.instance.teams.forEach(team => this._spawnFlag(team));
+  }
+
+  public override onRoundEnd(): void {
+    this._flags.forEach(flag => {
+      if (flag.isSpawned) {
+        flag.despawn();
+      }
+    });
+
+    this._flags.clear();
+  }
+
+  public override onPlayerLeft(player: Player): void {
+    super.onPlayerLeft(player);
+
+    // The carrier's entity is already gone, so send any flag they held home
+    this._flags.forEach(flag => {
+      if (flag.carrier?.player.username === player.username) {
+        this._returnFlag(flag);
+      }
+    });
+  }
+
+  public override onPlayerKilled(victim: GamePlayerEntity, attacker?: GamePlayerEntity): void {
+    // Kills don't score in capture the flag, the victim's carried flag
+    // is already dropped through GamePlayerEntity.dropAllInventoryItems().
+  }
+
+  public override onTick(tickDeltaMs: number): void {
+    this._flags.forEach(flag => {
+      // Flags that fell out of the world or were despawned with their carrier go home
+      if (!flag.isSpawned || (!flag.carrier && flag.position.y < -100)) {
+        this._returnFlag(flag);
+        return;
+      }
+
+      const carrier = flag.carrier;
+      if (!carrier) return;
+
+      const carrierTeam = TeamManager.instance.getPlayerTeam(carrier.player.username);
+      const carrierBase = carrierTeam ? CTF_TEAM_BASES[carrierTeam.id] : undefined;
+      const carrierFlag = carrierTeam ? this._flags.get(carrierTeam.id) : undefined;
+
+      // A flag can only be captured while the capturing team's own flag is home
+      if (carrierTeam && carrierBase && carrierFlag?.isAtBase && AABB.contains(carrierBase.captureZoneAABB, carrier.position)) {
+        this._captureFlag(flag, carrier, carrierTeam);
+      }
+    });
+  }
+
+  public override isRoundOver(): boolean {
+    return TeamManager.instance.teams.some(team => TeamManager.instance.getTeamScore(team.id) >= CTF_CAPTURE_LIMIT);
+  }
+
+  public override getScoreboard(): Scoreboard {
+    return {
+      ...super.getScoreboard(),
+      captureLimit: CTF_CAPTURE_LIMIT,
+      flags: Object.fromEntries(Array.from(this._flags.entries()).map(([ teamId, flag ]) => [ teamId, flag.state ])),
+    };
+  }
+
+  public override getStartAnnouncements(player: Player): GameModeAnnouncement[] {
+    const team = TeamManager.instance.getPlayerTeam(player.username);
+    const announcements: GameModeAnnouncement[] = [
+      { message: `Game started - first team to ${CTF_CAPTURE_LIMIT} flag captures wins!`, color: '00FF00' },
+      { message: '- Press "E" on the enemy flag to pick it up, bring it to your base to capture it' },
+      { message: '- Press "E" on your own dropped flag to return it' },
+    ];
+
+    if (team) {
+      announcements.push({ message: `- You are on the ${team.name} team, friendly fire is off`, color: team.chatColor });
+    }
+
+    return announcements;
+  }
+
+  private _captureFlag(flag: FlagEntity, carrier: GamePlayerEntity, carrierTeam: Team): void {
+    const username = carrier.player.username;
+
+    flag.returnToBase();
+    this.addPlayerScore(username);
+    TeamManager.instance.addTeamScore(carrierTeam.id);
+
+    this.world?.chatManager.sendBroadcastMessage(`${username} captured the ${flag.name} for the ${carrierTeam.name} team!`, carrierTeam.chatColor);
+    GameManager.instance.handleScoreChanged(username);
+  }
+
+  private _returnFlag(flag: FlagEntity): void {
+    if (flag.isSpawned) {
+      flag.returnToBase();
+    } else {
+      this._spawnFlag(flag.team);
+    }
+  }
+
+  private _spawnFlag(team: Team): void {
+    const base = CTF_TEAM_BASES[team.id];
+    if (!this.world || !base) return;
+
+    const flag = new FlagEntity({ team, basePosition: base.flagPosition });
+    flag.spawn(this.world, base.flagPosition);
+
+    this._flags.set(team.id, flag);
+  }
+}
@@ -0,0 +1,97 @@
+import type { Player } from 'hytopia';
+
+import FreeForAllGameMode from './FreeForAllGameMode';
+import GamePlayerEntity from '../GamePlayerEntity';
+import type { GameModeAnnouncement, GameModeOptions, RoundWinners, Scoreboard } from './GameMode';
+
+const DEFAULT_ELIMINATION_OPTIONS: GameModeOptions = {
+  id: 'elimination',
+  name: 'Elimination',
+  respawnsEnabled: false,
+  stormEnabled: true,
+};
+
+export default class EliminationGameMode extends FreeForAllGameMode {
+  protected readonly participants: Set<string> = new Set();
+  protected readonly eliminationOrder: string[] = [];
+
+  public constructor(options: Partial<GameModeOptions> = {}) {
+    super({ ...DEFAULT_ELIMINATION_OPTIONS, ...options });
+  }
+
+  public override onRoundStart(): void {
+    super.onRoundStart();
+
+    this.eliminationOrder.length = 0;
+    this.participants.clear();
+
+    // Everyone playing when the round starts is competing, players joining later spectate until the next round
+    this.world?.entityManager.getAllPlayerEntities().forEach(entity => {
+      if (entity instanceof GamePlayerEntity && !entity.isSpectating) {
+        this.participants.add(entity.player.username);
+      }
+    });
+  }
+
+  public override onPlayerLeft(player: Player): void {
+    this.eliminate(player.username);
+  }
+
+  public override onPlayerStartedSpectating(player: Player): void {
+    this.eliminate(player.username);
+  }
+
+  public override onPlayerKilled(victim: GamePlayerEntity, attacker?: GamePlayerEntity): void {
+    super.onPlayerKilled(victim, attacker);
+
+    this.eliminate(victim.player.username);
+  }
+
+  public override isRoundOver(): boolean {
+    // A round started by a single player can only end on the timer
+    return this.participants.size > 1 && this.getSurvivors().length <= 1;
+  }
+
+  public override computeWinners(): RoundWinners {
+    const placements = this.getPlacements();
+    if (!placements.length) return { usernames: [] };
+
+    return { usernames: [ placements[0] ], focusUsername: placements[0], placements };
+  }
+
+  public override getScoreboard(): Scoreboard {
+    return {
+      ...super.getScoreboard(),
+      survivors: this.getSurvivors(),
+      eliminated: [ ...this.eliminationOrder ],
+    };
+  }
+
+  public override getStartAnnouncements(player: Player): GameModeAnnouncement[] {
+    return [
+      { message: 'Game started - last player standing wins!', color: '00FF00' },
+      { message: '- There are no respawns, eliminated players spectate until the round ends' },
+      { message: '- Stay inside the safe zone, the storm outside it shrinks and deals damage', color: 'A020F0' },
+    ];
+  }
+
+  protected eliminate(username: string): void {
+    if (!this.participants.has(username) || this.eliminationOrder.includes(username)) return;
+
+    this.eliminationOrder.push(username);
+  }
+
+  /**
+   * Every participant ordered from first to last place. Survivors are placed
+   * ahead of eliminated players by kills, eliminated players by how long they lasted.
+   */
+  protected getPlacements(): string[] {
+    const survivors = this.getSurvivors().sort((a, b) => (this.killCounter.get(b) ?? 0) - (this.killCounter.get(a) ?? 0));
+
+    return [ ...survivors, ...[ ...this.eliminationOrder ].reverse() ];
+  }
+
+  protected getSurvivors(): string[] {
+    return Array.from(this.participants).filter(username => !this.eliminationOrder.includes(username));
+  }
+}
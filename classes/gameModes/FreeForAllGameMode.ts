@@ -0,0 +1,61 @@
+import type { Player } from 'hytopia';
+
+import GameMode from './GameMode';
+import type { GameModeAnnouncement, GameModeOptions, RoundWinners, Scoreboard } from './GameMode';
+import type GamePlayerEntity from '../GamePlayerEntity';
+
+const DEFAULT_FREE_FOR_ALL_OPTIONS: GameModeOptions = {
+  id: 'free-for-all',
+  name: 'Free For All',
+};
+
+export default class FreeForAllGameMode extends GameMode {
+  protected readonly killCounter: Map<string, number> = new Map();
+
+  public constructor(options: Partial<GameModeOptions> = {}) {
+    super({ ...DEFAULT_FREE_FOR_ALL_OPTIONS, ...options });
+  }
+
+  public override onRoundStart(): void {
+    this.killCounter.clear();
+  }
+
+  public override onPlayerKilled(victim: GamePlayerEntity, attacker?: GamePlayerEntity): void {
+    if (!attacker) return;
+
+    this.addPlayerScore(attacker.player.username);
+  }
+
+  protected addPlayerScore(username: string, amount: number = 1): void {
+    this.killCounter.set(username, (this.killCounter.get(username) ?? 0) + amount);
+  }
+
+  public override computeWinners(): RoundWinners {
+    // Find player with most kills
+    let highestKills = 0;
+    let winningPlayer = '';
+
+    this.killCounter.forEach((kills, player) => {
+      if (kills > highestKills) {
+        highestKills = kills;
+        winningPlayer = player;
+      }
+    });
+
+    return winningPlayer
+      ? { usernames: [ winningPlayer ], focusUsername: winningPlayer }
+      : { usernames: [] };
+  }
+
+  public override getScoreboard(): Scoreboard {
+    return {
+      killCounts: Object.fromEntries(this.killCounter),
+    };
+  }
+
+  public override getStartAnnouncements(player: Player): GameModeAnnouncement[] {
+    return [
+      { message: 'Game started - most kills wins!', color: '00FF00' },
+    ];
+  }
+}
@@ -0,0 +1,113 @@
+import type { Player, World } from 'hytopia';
+
+import {
+  GAME_DURATION_MS,
+  MINIMUM_PLAYERS_TO_START,
+  RESPAWN_DELAY_MS,
+  ROUND_COUNTDOWN_SECONDS,
+} from '../../gameConfig';
+
+import type GamePlayerEntity from '../GamePlayerEntity';
+import type { Team } from '../TeamManager';
+
+export type GameModeOptions = {
+  id: string;                 // The id used to select the mode on server start.
+  name: string;               // The display name of the mode.
+  minimumPlayers?: number;    // Connected players required before the countdown starts.
+  countdownSeconds?: number;  // Seconds counted down before a round starts.
+  roundDurationMs?: number;   // The max length of a round.
+  respawnDelayMs?: number;    // Delay before a dead player respawns.
+  respawnsEnabled?: boolean;  // Whether dead players respawn during a round, or spectate until it ends.
+  stormEnabled?: boolean;     // Whether a shrinking storm forces players together during a round.
+};
+
+export type GameModeAnnouncement = {
+  message: string;
+  color?: string;
+};
+
+export type RoundWinners = {
+  usernames: string[];     // Every player that is awarded the win.
+  focusUsername?: string;  // The player all cameras focus on at round end.
+  team?: Team;             // The winning team, for team based modes.
+  placements?: string[];   // Every participant ordered from first to last place, for placement based modes.
+};
+
+export type Scoreboard = {
+  killCounts: Record<string, number>;
+  [key: string]: unknown;
+};
+
+/**
+ * Base class for the rule set of a round. GameManager owns the round flow
+ * (waiting, countdown, timer, UI sync) and delegates every rule decision to the active mode.
+ */
+export default abstract class GameMode {
+  public readonly id: string;
+  public readonly name: string;
+  public readonly minimumPlayers: number;
+  public readonly countdownSeconds: number;
+  public readonly roundDurationMs: number;
+  public readonly respawnDelayMs: number;
+  public readonly respawnsEnabled: boolean;
+  public readonly stormEnabled: boolean;
+
+  protected world: World | undefined;
+
+  public constructor(options: GameModeOptions) {
+    this.id = options.id;
+    this.name = options.name;
+    this.minimumPlayers = options.minimumPlayers ?? MINIMUM_PLAYERS_TO_START;
+    this.countdownSeconds = options.countdownSeconds ?? ROUND_COUNTDOWN_SECONDS;
+    this.roundDurationMs = options.roundDurationMs ?? GAME_DURATION_MS;
+    this.respawnDelayMs = options.respawnDelayMs ?? RESPAWN_DELAY_MS;
+    this.respawnsEnabled = options.respawnsEnabled ?? true;
+    this.stormEnabled = options.stormEnabled ?? false;
+  }
+
+  public setup(world: World): void {
+    this.world = world;
+  }
+
+  /**
+   * Called when a round starts, modes should reset their scores here.
+   */
+  public onRoundStart(): void {}
+
+  public onRoundEnd(): void {}
+
+  /**
+   * Called when a player joins the world, before their entity is spawned.
+   */
+  public onPlayerJoined(player: Player): void {}
+
+  public onPlayerLeft(player: Player): void {}
+
+  /**
+   * Called when a living player stops playing to spectate during a round.
+   */
+  public onPlayerStartedSpectating(player: Player): void {}
+
+  public abstract onPlayerKilled(victim: GamePlayerEntity, attacker?: GamePlayerEntity): void;
+
+  /**
+   * Called by GameManager at a fixed interval while a round is active.
+   */
+  public onTick(tickDeltaMs: number): void {}
+
+  /**
+   * Checked after every score change and tick, returning true ends the round before the timer runs out.
+   */
+  public isRoundOver(): boolean {
+    return false;
+  }
+
+  public abstract computeWinners(): RoundWinners;
+
+  /**
+   * The payload sent with 'leaderboard-sync' and 'leaderboard-update' UI messages.
+   */
+  public abstract getScoreboard(): Scoreboard;
+
+  public abstract getStartAnnouncements(player: Player): GameModeAnnouncement[];
+}
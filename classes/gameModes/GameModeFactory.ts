@@ -0,0 +1,31 @@
+import CaptureTheFlagGameMode from './CaptureTheFlagGameMode';
+import EliminationGameMode from './EliminationGameMode';
+import FreeForAllGameMode from './FreeForAllGameMode';
+import KingOfTheHillGameMode from './KingOfTheHillGameMode';
+import TeamDeathmatchGameMode from './TeamDeathmatchGameMode';
+import TeamEliminationGameMode from './TeamEliminationGameMode';
+import TerritoryGameMode from './TerritoryGameMode';
+import type GameMode from './GameMode';
+
+export default class GameModeFactory {
+  public static createGameMode(gameModeId: string): GameMode {
+    switch (gameModeId) {
+      case 'capture-the-flag':
+        return new CaptureTheFlagGameMode();
+      case 'elimination':
+        return new EliminationGameMode();
+      case 'free-for-all':
+        return new FreeForAllGameMode();
+      case 'king-of-the-hill':
+        return new KingOfTheHillGameMode();
+      case 'team-deathmatch':
+        return new TeamDeathmatchGameMode();
+      case 'team-elimination':
+        return new TeamEliminationGameMode();
+      case 'territory':
+        return new TerritoryGameMode();
+      default:
+        throw new Error(`Unknown game mode id: ${gameModeId}`);
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import type { Player } from 'hytopia';
+
+import { KOTH_HILL_REGIONS_AABB, KOTH_HILL_ROTATION_MS, KOTH_SCORE_PER_SECOND } from '../../gameConfig';
+import AABB from '../AABB';
+import FreeForAllGameMode from './FreeForAllGameMode';
+import GameManager from '../GameManager';
+import GamePlayerEntity from '../GamePlayerEntity';
+import type { GameModeAnnouncement, GameModeOptions } from './GameMode';
+
+const HILL_UI_UPDATE_INTERVAL_MS = 1000;
+
+const DEFAULT_KING_OF_THE_HILL_OPTIONS: GameModeOptions = {
+  id: 'king-of-the-hill',
+  name: 'King Of The Hill',
+};
+
+export default class KingOfTheHillGameMode extends FreeForAllGameMode {
+  private _hillIndex: number = 0;
+  private _hillOwnerUsername: string | undefined;
+  private _hillRotatedAt: number = 0;
+  private _hillContested: boolean = false;
+  private readonly _hillTimeMs: Map<string, number> = new Map();
+  private _msSinceUIUpdate: number = 0;
+
+  public constructor(options: Partial<GameModeOptions> = {}) {
+    super({ ...DEFAULT_KING_OF_THE_HILL_OPTIONS, ...options });
+  }
+
+  private get _hillRegion() { return KOTH_HILL_REGIONS_AABB[this._hillIndex]; }
+
+  public override onRoundStart(): void {
+    super.onRoundStart();
+
+    this._hillTimeMs.clear();
+    this._hillIndex = Math.floor(Math.random() * KOTH_HILL_REGIONS_AABB.length);
+    this._hillRotatedAt = Date.now();
+    this._hillOwnerUsername = undefined;
+    this._hillContested = false;
+    this._sendHillUpdate();
+  }
+
+  public override onRoundEnd(): void {
+    GameManager.instance.broadcastUIData({ type: 'hill-update', show: false });
+  }
+
+  public override onPlayerKilled(victim: GamePlayerEntity, attacker?: GamePlayerEntity): void {
+    // Kills don't score in king of the hill, only holding the hill does.
+  }
+
+  public override onTick(tickDeltaMs: number): void {
+    if (Date.now() - this._hillRotatedAt >= KOTH_HILL_ROTATION_MS) {
+      this._rotateHill();
+    }
+
+    const previousOwnerUsername = this._hillOwnerUsername;
+    const previousContested = this._hillContested;
+    const playersOnHill = this._getPlayersOnHill();
+
+    this._hillContested = playersOnHill.length > 1;
+    this._hillOwnerUsername = playersOnHill.length === 1 ? playersOnHill[0].player.username : undefined;
+
+    if (this._hillOwnerUsername) {
+      this._accumulateHillTime(this._hillOwnerUsername, tickDeltaMs);
+    }
+
+    this._msSinceUIUpdate += tickDeltaMs;
+
+    if (
+      this._msSinceUIUpdate >= HILL_UI_UPDATE_INTERVAL_MS ||
+      previousOwnerUsername !== this._hillOwnerUsername ||
+      previousContested !== this._hillContested
+    ) {
+      this._sendHillUpdate();
+    }
+  }
+
+  public override getStartAnnouncements(player: Player): GameModeAnnouncement[] {
+    return [
+      { message: 'Game started - hold the hill to score, most points wins!', color: '00FF00' },
+      { message: `- The hill moves every ${Math.round(KOTH_HILL_ROTATION_MS / 1000)} seconds, you only score while alone on it` },
+    ];
+  }
+
+  private _accumulateHillTime(username: string, tickDeltaMs: number): void {
+    const hillTimeMs = (this._hillTimeMs.get(username) ?? 0) + tickDeltaMs;
+
+    // Award score for every full second held
+    if (hillTimeMs >= 1000) {
+      this._hillTimeMs.set(username, hillTimeMs - 1000);
+      this.addPlayerScore(username, KOTH_SCORE_PER_SECOND);
+      GameManager.instance.handleScoreChanged(username);
+    } else {
+      this._hillTimeMs.set(username, hillTimeMs);
+    }
+  }
+
+  private _getPlayersOnHill(): GamePlayerEntity[] {
+    if (!this.world) return [];
+
+    return this.world.entityManager.getAllPlayerEntities().filter(entity => {
+      return entity instanceof GamePlayerEntity && !entity.isDead && !entity.isSpectating && AABB.contains(this._hillRegion, entity.position);
+    }) as GamePlayerEntity[];
+  }
+
+  private _rotateHill(): void {
+    // Move to the next hill in the rotation
+    this._hillIndex = (this._hillIndex + 1) % KOTH_HILL_REGIONS_AABB.length;
+    this._hillRotatedAt = Date.now();
+    this._hillOwnerUsername = undefined;
+    this._hillTimeMs.clear();
+
+    this.world?.chatManager.sendBroadcastMessage('The hill has moved!', 'FFFF00');
+    this._sendHillUpdate();
+  }
+
+  private _sendHillUpdate(): void {
+    this._msSinceUIUpdate = 0;
+
+    GameManager.instance.broadcastUIData({
+      type: 'hill-update',
+      show: true,
+      position: AABB.center(this._hillRegion),
+      min: this._hillRegion.min,
+      max: this._hillRegion.max,
+      owner: this._hillOwnerUsername,
+      contested: this._hillContested,
+      progress: Math.min(1, (Date.now() - this._hillRotatedAt) / KOTH_HILL_ROTATION_MS),
+      rotatesAt: this._hillRotatedAt + KOTH_HILL_ROTATION_MS,
+    });
+  }
+}
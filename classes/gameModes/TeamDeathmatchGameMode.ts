@@ -0,0 +1,75 @@
+import type { Player } from 'hytopia';
+
+import FreeForAllGameMode from './FreeForAllGameMode';
+import type { GameModeAnnouncement, GameModeOptions, RoundWinners, Scoreboard } from './GameMode';
+import type GamePlayerEntity from '../GamePlayerEntity';
+import TeamManager from '../TeamManager';
+
+const DEFAULT_TEAM_DEATHMATCH_OPTIONS: GameModeOptions = {
+  id: 'team-deathmatch',
+  name: 'Team Deathmatch',
+};
+
+export default class TeamDeathmatchGameMode extends FreeForAllGameMode {
+  public constructor(options: Partial<GameModeOptions> = {}) {
+    super({ ...DEFAULT_TEAM_DEATHMATCH_OPTIONS, ...options });
+  }
+
+  public override onRoundStart(): void {
+    super.onRoundStart();
+    TeamManager.instance.resetScores();
+  }
+
+  public override onPlayerJoined(player: Player): void {
+    // Auto-balance the player onto a team before they spawn
+    const team = TeamManager.instance.assignPlayer(player.username);
+    this.world?.chatManager.sendPlayerMessage(player, `You joined the ${team.name} team!`, team.chatColor);
+  }
+
+  public override onPlayerLeft(player: Player): void {
+    TeamManager.instance.removePlayer(player.username);
+  }
+
+  public override onPlayerKilled(victim: GamePlayerEntity, attacker?: GamePlayerEntity): void {
+    super.onPlayerKilled(victim, attacker);
+
+    // Kills also count towards the player's team total
+    const team = attacker ? TeamManager.instance.getPlayerTeam(attacker.player.username) : undefined;
+    if (team) {
+      TeamManager.instance.addTeamScore(team.id);
+    }
+  }
+
+  public override computeWinners(): RoundWinners {
+    const winningTeam = TeamManager.instance.getWinningTeam();
+    if (!winningTeam) return { usernames: [] };
+
+    const teamMembers = TeamManager.instance.getTeamMembers(winningTeam.id);
+
+    // Focus cameras on the top fragger of the winning team
+    const focusUsername = [ ...teamMembers ].sort((a, b) => (this.killCounter.get(b) ?? 0) - (this.killCounter.get(a) ?? 0))[0];
+
+    return { usernames: teamMembers, focusUsername, team: winningTeam };
+  }
+
+  public override getScoreboard(): Scoreboard {
+    return {
+      ...super.getScoreboard(),
+      teamScores: TeamManager.instance.getTeamScores(),
+      playerTeams: Object.fromEntries(TeamManager.instance.teams.map(team => [ team.id, TeamManager.instance.getTeamMembers(team.id) ])),
+    };
+  }
+
+  public override getStartAnnouncements(player: Player): GameModeAnnouncement[] {
+    const team = TeamManager.instance.getPlayerTeam(player.username);
+    const announcements: GameModeAnnouncement[] = [
+      { message: 'Game started - the team with the most kills wins!', color: '00FF00' },
+    ];
+
+    if (team) {
+      announcements.push({ message: `- You are on the ${team.name} team, friendly fire is off`, color: team.chatColor });
+    }
+
+    return announcements;
+  }
+}
@@ -0,0 +1,119 @@
+import type { Player } from 'hytopia';
+
+import EliminationGameMode from './EliminationGameMode';
+import TeamManager from '../TeamManager';
+import type { GameModeAnnouncement, GameModeOptions, RoundWinners, Scoreboard } from './GameMode';
+import type GamePlayerEntity from '../GamePlayerEntity';
+import type { Team } from '../TeamManager';
+
+const DEFAULT_TEAM_ELIMINATION_OPTIONS: GameModeOptions = {
+  id: 'team-elimination',
+  name: 'Team Elimination',
+  respawnsEnabled: false,
+  stormEnabled: true,
+};
+
+export default class TeamEliminationGameMode extends EliminationGameMode {
+  public constructor(options: Partial<GameModeOptions> = {}) {
+    super({ ...DEFAULT_TEAM_ELIMINATION_OPTIONS, ...options });
+  }
+
+  public override onRoundStart(): void {
+    super.onRoundStart();
+    TeamManager.instance.resetScores();
+  }
+
+  public override onPlayerJoined(player: Player): void {
+    // Auto-balance the player onto a team before they spawn
+    const team = TeamManager.instance.assignPlayer(player.username);
+    this.world?.chatManager.sendPlayerMessage(player, `You joined the ${team.name} team!`, team.chatColor);
+  }
+
+  public override onPlayerLeft(player: Player): void {
+    super.onPlayerLeft(player);
+    TeamManager.instance.removePlayer(player.username);
+  }
+
+  public override onPlayerKilled(victim: GamePlayerEntity, attacker?: GamePlayerEntity): void {
+    super.onPlayerKilled(victim, attacker);
+
+    // Team kills break ties between teams with the same number of survivors
+    const team = attacker ? TeamManager.instance.getPlayerTeam(attacker.player.username) : undefined;
+    if (team) {
+      TeamManager.instance.addTeamScore(team.id);
+    }
+  }
+
+  public override isRoundOver(): boolean {
+    return this.participants.size > 1 && this._getSurvivorCounts().size <= 1;
+  }
+
+  public override computeWinners(): RoundWinners {
+    const winningTeam = this._getWinningTeam();
+    if (!winningTeam) return { usernames: [] };
+
+    const placements = this.getPlacements();
+    const teamMembers = TeamManager.instance.getTeamMembers(winningTeam.id);
+
+    // Focus cameras on the best placed player of the winning team
+    const focusUsername = placements.find(username => teamMembers.includes(username));
+
+    return { usernames: teamMembers, focusUsername, team: winningTeam, placements };
+  }
+
+  public override getScoreboard(): Scoreboard {
+    return {
+      ...super.getScoreboard(),
+      teamScores: TeamManager.instance.getTeamScores(),
+      playerTeams: Object.fromEntries(TeamManager.instance.teams.map(team => [ team.id, TeamManager.instance.getTeamMembers(team.id) ])),
+    };
+  }
+
+  public override getStartAnnouncements(player: Player): GameModeAnnouncement[] {
+    const team = TeamManager.instance.getPlayerTeam(player.username);
+    const announcements: GameModeAnnouncement[] = [
+      { message: 'Game started - last team standing wins!', color: '00FF00' },
+      { message: '- There are no respawns, eliminated players spectate until the round ends' },
+      { message: '- Stay inside the safe zone, the storm outside it shrinks and deals damage', color: 'A020F0' },
+    ];
+
+    if (team) {
+      announcements.push({ message: `- You are on the ${team.name} team, friendly fire is off`, color: team.chatColor });
+    }
+
+    return announcements;
+  }
+
+  private _getSurvivorCounts(): Map<string, number> {
+    const survivorCounts = new Map<string, number>();
+
+    this.getSurvivors().forEach(username => {
+      const team = TeamManager.instance.getPlayerTeam(username);
+      if (team) {
+        survivorCounts.set(team.id, (survivorCounts.get(team.id) ?? 0) + 1);
+      }
+    });
+
+    return survivorCounts;
+  }
+
+  private _getWinningTeam(): Team | undefined {
+    // The team with the most survivors wins, falling back to team kills on a tie
+    let mostSurvivors = 0;
+    let winningTeams: Team[] = [];
+
+    this._getSurvivorCounts().forEach((survivors, teamId) => {
+      const team = TeamManager.instance.teams.find(team => team.id === teamId);
+      if (!team) return;
+
+      if (survivors > mostSurvivors) {
+        mostSurvivors = survivors;
+        winningTeams = [ team ];
+      } else if (survivors === mostSurvivors) {
+        winningTeams.push(team);
+      }
+    });
+
+    return winningTeams.length === 1 ? winningTeams[0] : TeamManager.instance.getWinningTeam();
+  }
+}
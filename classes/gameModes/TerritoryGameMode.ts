@@ -0,0 +1,116 @@
+import type { Player } from 'hytopia';
+
+import GameManager from '../GameManager';
+import PaintCoverageManager from '../PaintCoverageManager';
+import TeamDeathmatchGameMode from './TeamDeathmatchGameMode';
+import TeamManager from '../TeamManager';
+import type { GameModeAnnouncement, GameModeOptions, RoundWinners, Scoreboard } from './GameMode';
+import type GamePlayerEntity from '../GamePlayerEntity';
+
+const COVERAGE_UI_UPDATE_INTERVAL_MS = 2000;
+
+const DEFAULT_TERRITORY_OPTIONS: GameModeOptions = {
+  id: 'territory',
+  name: 'Territory',
+};
+
+/**
+ * Teams paint the map, the team covering the most block surface when the timer runs out wins.
+ */
+export default class TerritoryGameMode extends TeamDeathmatchGameMode {
+  private _msSinceUIUpdate: number = 0;
+
+  public constructor(options: Partial<GameModeOptions> = {}) {
+    super({ ...DEFAULT_TERRITORY_OPTIONS, ...options });
+  }
+
+  public override onRoundStart(): void {
+    super.onRoundStart();
+
+    this._sendCoverageUpdate();
+  }
+
+  public override onRoundEnd(): void {
+    this._sendCoverageUpdate();
+  }
+
+  public override onPlayerKilled(victim: GamePlayerEntity, attacker?: GamePlayerEntity): void {
+    // Kills are counted for the scoreboard, but only paint scores for the team
+    if (!attacker) return;
+
+    this.addPlayerScore(attacker.player.username);
+  }
+
+  public override onTick(tickDeltaMs: number): void {
+    this._msSinceUIUpdate += tickDeltaMs;
+
+    if (this._msSinceUIUpdate >= COVERAGE_UI_UPDATE_INTERVAL_MS) {
+      this._sendCoverageUpdate();
+    }
+  }
+
+  public override computeWinners(): RoundWinners {
+    this._syncTeamScores();
+
+    const winners = super.computeWinners();
+    if (!winners.team || !this.world) return winners;
+
+    // Focus cameras on the winning team's best painter
+    const playerCoverage = PaintCoverageManager.instance.getPlayerCoverage(this.world);
+    const focusUsername = [ ...winners.usernames ].sort((a, b) => (playerCoverage[b] ?? 0) - (playerCoverage[a] ?? 0))[0];
+
+    return { ...winners, focusUsername };
+  }
+
+  public override getScoreboard(): Scoreboard {
+    return {
+      ...super.getScoreboard(),
+      playerCoverage: this.world ? PaintCoverageManager.instance.getPlayerCoverage(this.world) : {},
+    };
+  }
+
+  public override getStartAnnouncements(player: Player): GameModeAnnouncement[] {
+    const team = TeamManager.instance.getPlayerTeam(player.username);
+    const announcements: GameModeAnnouncement[] = [
+      { message: 'Game started - paint the map, the team covering the most surface wins!', color: '00FF00' },
+      { message: '- Painting over the other team\'s paint takes it back, broken blocks lose their paint' },
+    ];
+
+    if (team) {
+      announcements.push({ message: `- You are on the ${team.name} team, friendly fire is off`, color: team.chatColor });
+    }
+
+    return announcements;
+  }
+
+  private _sendCoverageUpdate(): void {
+    this._msSinceUIUpdate = 0;
+    this._syncTeamScores();
+
+    const teamScores = TeamManager.instance.getTeamScores();
+    const totalFaces = Object.values(teamScores).reduce((sum, faces) => sum + faces, 0);
+
+    GameManager.instance.broadcastUIData({
+      type: 'coverage-update',
+      teams: TeamManager.instance.teams.map(team => ({
+        id: team.id,
+        name: team.name,
+        color: team.color,
+        faces: teamScores[team.id],
+        percent: totalFaces ? Math.round(teamScores[team.id] / totalFaces * 100) : 0,
+      })),
+    });
+  }
+
+  /**
+   * Team scores mirror painted surface, so the team scoreboard and winner follow coverage.
+   */
+  private _syncTeamScores(): void {
+    if (!this.world) return;
+
+    const teamCoverage = PaintCoverageManager.instance.getTeamCoverage(this.world);
+
+    TeamManager.instance.resetScores();
+    TeamManager.instance.teams.forEach(team => TeamManager.instance.addTeamScore(team.id, teamCoverage[team.id] ?? 0));
+  }
+}
@@ -45,4 +45,4 @@ export default class GravityPotionEntity extends ItemEntity {
     this.setPosition({ x: 0, y: 0.15, z: -0.2 });
     this.setRotation(Quaternion.fromEuler(-90, 0, 0));
   }
-}
\ No newline at end of file
+}
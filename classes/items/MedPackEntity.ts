@@ -40,4 +40,4 @@ export default class MedPackEntity extends ItemEntity {
     this.setPosition({ x: 0, y: 0.15, z: 0.3 });
     this.setRotation(Quaternion.fromEuler(-90, 0, 270));
   }
-}
\ No newline at end of file
+}
@@ -155,4 +155,4 @@ export default class CustomGunEntity extends GunEntity {
       rotation: Quaternion.fromEuler(0, 90, 0), // Example rotation
     };
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,50 @@
+import { Quaternion, Vector3Like, QuaternionLike } from 'hytopia';
+import GunEntity from '../GunEntity';
+import type { GunEntityOptions } from '../GunEntity';
+import type { WeaponDefinition } from '../WeaponDefinitions';
+
+/**
+ * A gun built entirely from a weapon definition in assets/weapons.json.
+ */
+export default class GenericGunEntity extends GunEntity {
+  public readonly weaponId: string;
+  private readonly _definition: WeaponDefinition;
+
+  public constructor(definition: WeaponDefinition, options: Partial<GunEntityOptions> = {}) {
+    const { id, muzzleFlash, equipPose, reloadAfterShotMs, ...gunOptions } = definition;
+
+    super({ ...gunOptions, ammo: definition.maxAmmo, ...options });
+
+    this.weaponId = id;
+    this._definition = definition;
+  }
+
+  public override shoot(): void {
+    if (!this.parent || !this.processShoot()) return;
+
+    super.shoot();
+
+    if (this._definition.reloadAfterShotMs) {
+      setTimeout(() => { this.reload() }, this._definition.reloadAfterShotMs);
+    }
+  }
+
+  public override equip(): void {
+    super.equip();
+
+    const { equipPose } = this._definition;
+    if (!equipPose) return;
+
+    this.setPosition(equipPose.position);
+    this.setRotation(Quaternion.fromEuler(equipPose.rotation.x, equipPose.rotation.y, equipPose.rotation.z));
+  }
+
+  public override getMuzzleFlashPositionRotation(): { position: Vector3Like, rotation: QuaternionLike } {
+    const { position, rotation } = this._definition.muzzleFlash;
+
+    return {
+      position,
+      rotation: Quaternion.fromEuler(rotation.x, rotation.y, rotation.z),
+    };
+  }
+}
@@ -1,8 +1,10 @@
 import { Quaternion } from 'hytopia';
 import MeleeWeaponEntity from '../MeleeWeaponEntity';
 import type { MeleeWeaponEntityOptions } from '../MeleeWeaponEntity';
+import { RAYCAST_FILTER_GROUPS } from '../../gameConfig';
 import TerrainDamageManager from '../TerrainDamageManager';
-import { GamePlayerEntity } from '../GamePlayerEntity';
+import TerrainEditManager from '../TerrainEditManager';
+import type GamePlayerEntity from '../GamePlayerEntity';
 import { Vector3Like } from 'hytopia';
 import { RaycastHit } from 'hytopia';
 
@@ -47,33 +49,23 @@ export default class PickaxeEntity extends MeleeWeaponEntity {
     const { world } = this.parent;
     const raycastHit = world.simulation.raycast(origin, direction, length, {
       filterExcludeRigidBody: this.parent.rawRigidBody,
+      filterGroups: RAYCAST_FILTER_GROUPS,
     });
 
     if (raycastHit?.hitBlock) {
-      // --- Add check for Y-level --- 
-      if (raycastHit.hitBlock.globalCoordinate.y < 0) {
-        // Play hit sound but don't break block
-        this._hitAudio.play(world, true); 
-        console.log('Cannot break blocks at or below Y=-1');
-        return raycastHit; // Stop processing if block is too low
-      }
-      // --- End check ---
-
       // --- Pickaxe Specific Logic: Instant Break --- 
+      // Protected regions, like the bedrock floor, keep the block and explain why in chat
+      const player = this.parent as GamePlayerEntity;
       const breakPosition = raycastHit.hitBlock.globalCoordinate;
-      world.chunkLattice.setBlock(breakPosition, 0); // Instantly set block to air
-      // const brokeBlock = true; // No longer needed as we don't check minesMaterials
+      const brokeBlock = TerrainEditManager.instance.setBlock(world, breakPosition, 0, 'break', player.player); // Instantly set block to air
       // --- End Pickaxe Specific Logic ---
 
-      // --- Remove Material Awarding Logic ---
-      // if (this.minesMaterials && brokeBlock) { 
-      //   const player = this.parent as GamePlayerEntity;
-      //   const blockId = raycastHit.hitBlock.blockType.id;
-      //   const materialCount = TerrainDamageManager.getBreakMaterialCount(blockId);
-      // 
-      //   player.addMaterial(materialCount);
-      // } 
-      // --- End Remove Material Awarding Logic ---
+      if (this.minesMaterials && brokeBlock) {
+        const blockId = raycastHit.hitBlock.blockType.id;
+        const materialCount = TerrainDamageManager.getBreakMaterialCount(blockId);
+
+        player.addMaterial(materialCount);
+      }
 
       // Play hit sound for blocks
       this._hitAudio.play(world, true);
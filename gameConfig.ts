@@ -1,7 +1,17 @@
-import { Quaternion } from 'hytopia';
+import { CollisionGroup, CollisionGroupsBuilder, Quaternion, Vector3Like } from 'hytopia';
+
+import type { LootTableDefinition } from './classes/LootManager';
+
+export const ADMIN_USERNAMES: string[] = []; // Players allowed to use admin chat commands like /undo and /rollback
+
+export const ASSIST_WINDOW_MS = 10 * 1000; // Damage dealt this long before a kill earns an assist
 
 export const BEDROCK_BLOCK_ID = 2;
 
+export const BLOCK_DAMAGE_DECAY_DELAY_MS = 5 * 1000; // Damaged blocks left alone this long start to regenerate
+
+export const BLOCK_DAMAGE_DECAY_PER_SECOND = 10; // Damage a regenerating block recovers every second
+
 export const BLOCK_ID_BREAK_DAMAGE: Record<string | number, number> = {
   1: 50, // bricks
   4: 50, // cobblestone
@@ -44,6 +54,51 @@ export const BLOCK_ID_MATERIALS: Record<string | number, number> = {
 
 export const BUILD_BLOCK_ID = 37; // stone
 
+/**
+ * Structures players can cycle through in build mode. Block offsets are relative to
+ * the block placed against the face being looked at, x to the right, y up and z away
+ * from the player. Each block costs the same materials as placing a single block.
+ */
+export const BUILD_PREFABS: { id: string, name: string, blocks: Vector3Like[] }[] = [
+  {
+    id: 'wall',
+    name: 'Wall',
+    blocks: [
+      { x: -1, y: 0, z: 0 }, { x: 0, y: 0, z: 0 }, { x: 1, y: 0, z: 0 },
+      { x: -1, y: 1, z: 0 }, { x: 0, y: 1, z: 0 }, { x: 1, y: 1, z: 0 },
+      { x: -1, y: 2, z: 0 }, { x: 0, y: 2, z: 0 }, { x: 1, y: 2, z: 0 },
+    ],
+  },
+  {
+    id: 'ramp',
+    name: 'Ramp',
+    blocks: [
+      { x: -1, y: 0, z: 0 }, { x: 0, y: 0, z: 0 }, { x: 1, y: 0, z: 0 },
+      { x: -1, y: 1, z: 1 }, { x: 0, y: 1, z: 1 }, { x: 1, y: 1, z: 1 },
+      { x: -1, y: 2, z: 2 }, { x: 0, y: 2, z: 2 }, { x: 1, y: 2, z: 2 },
+    ],
+  },
+  {
+    id: 'floor',
+    name: 'Floor',
+    blocks: [
+      { x: -1, y: 0, z: 0 }, { x: 0, y: 0, z: 0 }, { x: 1, y: 0, z: 0 },
+      { x: -1, y: 0, z: 1 }, { x: 0, y: 0, z: 1 }, { x: 1, y: 0, z: 1 },
+      { x: -1, y: 0, z: 2 }, { x: 0, y: 0, z: 2 }, { x: 1, y: 0, z: 2 },
+    ],
+  },
+  {
+    id: 'pyramid',
+    name: 'Pyramid',
+    blocks: [
+      { x: -1, y: 0, z: 0 }, { x: 0, y: 0, z: 0 }, { x: 1, y: 0, z: 0 },
+      { x: -1, y: 0, z: 1 }, { x: 0, y: 0, z: 1 }, { x: 1, y: 0, z: 1 },
+      { x: -1, y: 0, z: 2 }, { x: 0, y: 0, z: 2 }, { x: 1, y: 0, z: 2 },
+      { x: 0, y: 1, z: 1 },
+    ],
+  },
+];
+
 export const CHEST_DROP_INTERVAL_MS = 15 * 1000; // 15 seconds
 
 export const CHEST_DROP_REGION_AABB = {
@@ -53,14 +108,8 @@ export const CHEST_DROP_REGION_AABB = {
 
 export const CHEST_SPAWNS_AT_START = 20;
 
-export const CHEST_MAX_DROP_ITEMS = 2;
-
 export const CHEST_OPEN_DESPAWN_MS = 10 * 1000; // 10 seconds
 
-export const CHEST_DROP_ITEMS = [
-  // Empty: No items will drop from chests
-]
-
 export const CHEST_SPAWNS = [
   {
     position: { x: -14, y: 2, z: -16 },
@@ -284,8 +333,43 @@ export const CHEST_SPAWNS = [
   },
 ];
 
+export const CTF_CAPTURE_LIMIT = 3; // Captures a team needs to win the round early
+
+export const CTF_FLAG_AUTO_RETURN_MS = 20 * 1000; // 20 seconds
+
+export const CTF_FLAG_CARRIER_WALK_VELOCITY = 4; // Flag carriers can't run
+
+/**
+ * Capture the flag bases by team id. The team's flag spawns at flagPosition and enemy
+ * flags are captured by carrying them into the captureZoneAABB while the team's own flag is home.
+ */
+export const CTF_TEAM_BASES: Record<string, { flagPosition: Vector3Like, captureZoneAABB: { min: Vector3Like, max: Vector3Like } }> = {
+  red: {
+    flagPosition: { x: -36, y: 3, z: -30 },
+    captureZoneAABB: {
+      min: { x: -40, y: 1, z: -34 },
+      max: { x: -32, y: 8, z: -26 },
+    },
+  },
+  blue: {
+    flagPosition: { x: 38, y: 3, z: 30 },
+    captureZoneAABB: {
+      min: { x: 34, y: 1, z: 26 },
+      max: { x: 42, y: 8, z: 34 },
+    },
+  },
+};
+
 export const GAME_DURATION_MS = (3 * 60 + 50) * 1000; // 3 minutes 50 seconds
 
+/**
+ * The default game mode the server runs, can be overridden per server start
+ * with the GAME_MODE environment variable. See GameModeFactory for available ids.
+ */
+export const GAME_MODE = 'free-for-all';
+
+export const IDLE_SPECTATE_TIMEOUT_MS = 90 * 1000; // Players without input for this long are moved to spectators
+
 export const ITEM_DESPAWN_TIME_MS = 25 * 1000; // 25 seconds
 
 export const ITEM_SPAWNS = [
@@ -306,20 +390,110 @@ export const ITEM_SPAWNS = [
   { position: { x: -30.5, y: 10, z: 41.5 } },
 ];
 
-// Define the expected structure for items that *could* be spawned
-interface ItemSpawnInfo {
-  itemId: string;
-  pickWeight: number;
-}
+export const ITEM_SPAWNS_AT_START = 12;
 
-export const ITEM_SPAWN_ITEMS: ItemSpawnInfo[] = [
-  // Empty: No items will spawn randomly in the world
-]
+/**
+ * Axis Aligned Bounding Boxes the king of the hill zone rotates through, in order.
+ */
+export const KOTH_HILL_REGIONS_AABB = [
+  {
+    min: { x: -4, y: 2, z: 6 },
+    max: { x: 8, y: 8, z: 16 },
+  },
+  {
+    min: { x: -38, y: 2, z: -38 },
+    max: { x: -26, y: 8, z: -28 },
+  },
+  {
+    min: { x: 32, y: 2, z: 24 },
+    max: { x: 44, y: 8, z: 36 },
+  },
+  {
+    min: { x: -36, y: 2, z: 10 },
+    max: { x: -24, y: 8, z: 24 },
+  },
+  {
+    min: { x: 32, y: 2, z: -24 },
+    max: { x: 44, y: 8, z: -12 },
+  },
+];
 
-export const ITEM_SPAWNS_AT_START = 12;
+export const KOTH_HILL_ROTATION_MS = 45 * 1000; // 45 seconds
+
+export const KOTH_SCORE_PER_SECOND = 1; // Score for every second a player holds the hill uncontested
+
+export const LAG_COMPENSATION_MAX_REWIND_MS = 250; // Projectile hits are checked against where targets were up to this long ago
+
+/**
+ * Loot tables by id, see LootManager. Chests roll the chest table and world
+ * item spawns roll the item-spawn table, other tables are nested in those.
+ */
+export const LOOT_TABLES: Record<string, LootTableDefinition> = {
+  'chest': {
+    entries: [
+      { tableId: 'weapons', pickWeight: 3 },
+      { tableId: 'consumables', pickWeight: 2 },
+    ],
+    rolls: { min: 1, max: 2 },
+    pity: { rarity: 'epic', rolls: 6 }, // A sixth chest in a round without an epic drop guarantees one
+  },
+  'consumables': {
+    entries: [
+      { itemId: 'medpack', pickWeight: 40, rarity: 'common', quantity: { min: 1, max: 2 } },
+      { itemId: 'shield-potion', pickWeight: 25, rarity: 'uncommon' },
+      { itemId: 'gravity-potion', pickWeight: 15, rarity: 'rare' },
+    ],
+  },
+  'item-spawn': {
+    entries: [
+      { tableId: 'weapons', pickWeight: 1 },
+      { tableId: 'consumables', pickWeight: 1 },
+    ],
+  },
+  'weapons': {
+    entries: [
+      { itemId: 'pistol', pickWeight: 30, rarity: 'common' },
+      { itemId: 'revolver', pickWeight: 20, rarity: 'common' },
+      { itemId: 'submachine-gun', pickWeight: 18, rarity: 'uncommon' },
+      { itemId: 'shotgun', pickWeight: 18, rarity: 'uncommon' },
+      { itemId: 'ak47', pickWeight: 12, rarity: 'rare' },
+      { itemId: 'auto-shotgun', pickWeight: 10, rarity: 'rare' },
+      { itemId: 'bolt-action-sniper', pickWeight: 8, rarity: 'rare' },
+      { itemId: 'light-machine-gun', pickWeight: 6, rarity: 'epic' },
+      { itemId: 'auto-sniper', pickWeight: 5, rarity: 'epic' },
+      { itemId: 'mining-drill', pickWeight: 4, rarity: 'epic' },
+      { itemId: 'rocket-launcher', pickWeight: 2, rarity: 'legendary' },
+    ],
+  },
+};
 
 export const MINIMUM_PLAYERS_TO_START = 2;
 
+/**
+ * Block coordinate regions where terrain edits are restricted. Names are shown
+ * to players in chat when an edit is blocked, e.g. "You can't build in the red flag base."
+ */
+export const PROTECTED_REGIONS: { name: string, min: Vector3Like, max: Vector3Like, rules: ('no-break' | 'no-build' | 'no-explosion')[] }[] = [
+  {
+    name: 'the bedrock floor',
+    min: { x: -100, y: -64, z: -100 },
+    max: { x: 100, y: -1, z: 100 },
+    rules: [ 'no-break', 'no-build', 'no-explosion' ],
+  },
+  {
+    name: 'the red flag base',
+    min: { x: -40, y: 1, z: -34 },
+    max: { x: -32, y: 8, z: -26 },
+    rules: [ 'no-build', 'no-explosion' ],
+  },
+  {
+    name: 'the blue flag base',
+    min: { x: 34, y: 1, z: 26 },
+    max: { x: 42, y: 8, z: 34 },
+    rules: [ 'no-build', 'no-explosion' ],
+  },
+];
+
 export const RANK_ASSIST_EXP = 20;
 export const RANK_SAVE_INTERVAL_EXP = 500; // Every increment of this, save the persisted data.
 export const RANK_KILL_EXP = 100;
@@ -580,10 +754,63 @@ export const RANKS = [
   },
 ]
 
+// Raycasts for hits, building and interacting skip visual only entities, like crack overlays, that belong to no collision group
+export const RAYCAST_FILTER_GROUPS = CollisionGroupsBuilder.buildRawCollisionGroups({
+  belongsTo: [ CollisionGroup.ALL ],
+  collidesWith: [ CollisionGroup.ALL ],
+});
+
+export const RESPAWN_DELAY_MS = 5 * 1000; // 5 seconds
+
+export const ROUND_COUNTDOWN_SECONDS = 20;
+
+/**
+ * Teams used by team based game modes. Players are auto-balanced between them on join.
+ */
+export const TEAMS = [
+  {
+    id: 'red',
+    name: 'Red',
+    color: { r: 255, g: 50, b: 50 },
+    chatColor: 'FF3232',
+  },
+  {
+    id: 'blue',
+    name: 'Blue',
+    color: { r: 50, g: 110, b: 255 },
+    chatColor: '326EFF',
+  },
+];
+
 /**
  * Axis Aligned Bounding Box for spawning players at the start of the game.
  */
 export const SPAWN_REGION_AABB = {
   min: { x: -54.0, y: 10.0, z: -38.0 },
   max: { x: 43.0, y: 20.0, z: 46.0 },
-};
\ No newline at end of file
+};
+
+export const SPLATTER_LIFETIME_MS = 10 * 1000; // 10 seconds
+
+export const SPLATTER_MAX_COUNT = 200; // The oldest splatter is recycled past this many in the world
+
+export const SPLATTER_MAX_PER_CHUNK = 40; // The oldest splatter in a 16x16x16 chunk is recycled past this many in it
+
+export const STORM_DAMAGE_INTERVAL_MS = 1000; // How often players outside the safe zone take storm damage
+
+export const STORM_INITIAL_ZONE = {
+  center: { x: -5, z: 4 },
+  radius: 75, // Covers the whole map
+};
+
+/**
+ * Phases of the shrinking storm, run back to back from the start of the round.
+ * Each phase holds the zone for waitMs, then shrinks it to radius over shrinkMs.
+ * Keep the total within GAME_DURATION_MS so the final zone is reached before the round ends.
+ */
+export const STORM_PHASES = [
+  { waitMs: 40 * 1000, shrinkMs: 30 * 1000, radius: 45, damage: 2 },
+  { waitMs: 30 * 1000, shrinkMs: 25 * 1000, radius: 25, damage: 4 },
+  { waitMs: 25 * 1000, shrinkMs: 20 * 1000, radius: 12, damage: 8 },
+  { waitMs: 20 * 1000, shrinkMs: 20 * 1000, radius: 3, damage: 15 },
+];
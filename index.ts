@@ -5,10 +5,23 @@ import {
 } from 'hytopia';
 
 import GameManager from './classes/GameManager';
+import GamePlayerEntity from './classes/GamePlayerEntity';
+import GameModeFactory from './classes/gameModes/GameModeFactory';
+import LootManager from './classes/LootManager';
+import SplatterManager from './classes/SplatterManager';
+import TerrainEditManager from './classes/TerrainEditManager';
+import WeaponDefinitions from './classes/WeaponDefinitions';
+import { registerBuiltInItems } from './classes/builtInItems';
+import { ADMIN_USERNAMES, GAME_MODE } from './gameConfig';
 
 import worldMap from './assets/terrain (6).json';
 
 startServer(world => {
+  // Validate weapon and loot data up front so a bad definition fails on startup
+  WeaponDefinitions.load();
+  registerBuiltInItems();
+  LootManager.instance.validate();
+
   // Load the game map
   world.loadMap(worldMap);
 
@@ -19,8 +32,8 @@ startServer(world => {
   world.setAmbientLightIntensity(0.8);
   world.setDirectionalLightIntensity(5);
 
-  // Initialize the GameManager
-  GameManager.instance.setupGame(world);
+  // Initialize the GameManager with the game mode selected for this server start
+  GameManager.instance.setupGame(world, GameModeFactory.createGameMode(process.env.GAME_MODE ?? GAME_MODE));
 
   // Handle player joining the game
   world.on(PlayerEvent.JOINED_WORLD, ({ player }) => {
@@ -34,7 +47,65 @@ startServer(world => {
       .getPlayerEntitiesByPlayer(player)
       .forEach(entity => entity.despawn());
 
-    GameManager.instance.playerCount--;
+    GameManager.instance.handlePlayerLeft(player);
+  });
+
+  // Let players opt in and out of spectating
+  world.chatManager.registerCommand('/spectate', player => {
+    world.entityManager
+      .getPlayerEntitiesByPlayer(player)
+      .forEach(entity => {
+        if (entity instanceof GamePlayerEntity) {
+          entity.toggleSpectating();
+        }
+      });
+  });
+
+  // Admin commands to clean up griefing and review terrain edits
+  world.chatManager.registerCommand('/undo', (player, args) => {
+    if (!ADMIN_USERNAMES.includes(player.username)) return;
+
+    const [ username ] = args;
+    if (!username) {
+      return world.chatManager.sendPlayerMessage(player, 'Usage: /undo <username>', 'FF0000');
+    }
+
+    const undoneCount = TerrainEditManager.instance.undoPlayerEdits(world, username, player);
+    world.chatManager.sendPlayerMessage(player, `Reverted ${undoneCount} blocks edited by ${username}.`, '00FF00');
+  });
+
+  world.chatManager.registerCommand('/rollback', player => {
+    if (!ADMIN_USERNAMES.includes(player.username)) return;
+
+    // Restoring starts a new journal, so keep the rolled back edits on disk for review
+    if (TerrainEditManager.instance.journal.length) {
+      TerrainEditManager.instance.saveJournal().catch(error => {
+        console.error('>>> [index] /rollback: Failed to save terrain journal', error);
+        world.chatManager.sendPlayerMessage(player, 'Failed to save the terrain journal before rolling back, see the server logs.', 'FF0000');
+      });
+    }
+
+    TerrainEditManager.instance.restore(world);
+    world.chatManager.sendBroadcastMessage('The terrain was rolled back to the start of the round.', 'FFFF00');
+  });
+
+  world.chatManager.registerCommand('/exportterrain', async player => {
+    if (!ADMIN_USERNAMES.includes(player.username)) return;
+
+    try {
+      const path = await TerrainEditManager.instance.saveJournal();
+      world.chatManager.sendPlayerMessage(player, `Saved the terrain journal to ${path}.`, '00FF00');
+    } catch (error) {
+      console.error('>>> [index] /exportterrain: Failed to save terrain journal', error);
+      world.chatManager.sendPlayerMessage(player, 'Failed to save the terrain journal, see the server logs.', 'FF0000');
+    }
+  });
+
+  world.chatManager.registerCommand('/splatterstats', player => {
+    if (!ADMIN_USERNAMES.includes(player.username)) return;
+
+    const { live, pooled, spawned, merged, recycled } = SplatterManager.instance.getMetrics();
+    world.chatManager.sendPlayerMessage(player, `Splatters: ${live} live, ${pooled} pooled, ${spawned} spawned, ${merged} merged, ${recycled} recycled.`, '00FF00');
   });
 });
 